@@ -0,0 +1,124 @@
+import { z } from 'zod'
+import { decodeJwt } from './jwt'
+
+/**
+ * Details of the impersonated session, taken from the `act` claim of the access token.
+ */
+export interface FronteggImpersonation {
+  /**
+   * Frontegg id of the operator impersonating the user.
+   */
+  actorId: string
+  /**
+   * Type of the impersonation reported by Frontegg, e.g. `impersonation`.
+   */
+  type: string | null
+  /**
+   * Time in milliseconds since epoch when the impersonation expires, if limited.
+   */
+  expiresAt: number | null
+}
+
+export interface FronteggUserData {
+  externalUserId: string
+  accessToken: string
+  name: string
+  email: string
+  profilePictureUrl: string | null | undefined
+  externalWorkspaceId: string
+  isImpersonated: boolean
+  /**
+   * Details of the impersonation, null when the session is not being impersonated.
+   */
+  impersonation: FronteggImpersonation | null
+  /**
+   * Role keys of the user in the current tenant.
+   */
+  roles: string[]
+  /**
+   * Permission keys of the user in the current tenant, see `hasPermission` for wildcard matching.
+   */
+  permissions: string[]
+  /**
+   * Ids of all tenants the user belongs to.
+   */
+  tenantIds: string[]
+  /**
+   * Custom metadata of the user.
+   */
+  metadata: Record<string, unknown>
+  /**
+   * Time in milliseconds since epoch when the user last authenticated, null when the token does not contain it.
+   */
+  authenticatedAt: number | null
+  /**
+   * Methods used to authenticate the user (e.g. `pwd` or `mfa`), empty when the token does not contain them.
+   */
+  authenticationMethods: string[]
+}
+
+/**
+ * Claims of the Frontegg access token, shared by the browser client and the server-side verification.
+ */
+const FRONTEGG_DECODED_TOKEN_SCHEMA = z.object({
+  sub: z.string().describe('JWT subject claim used for the Frontegg user id'),
+  email: z.string(),
+  name: z.string(),
+  profilePictureUrl: z.string().nullable().optional(),
+  tenantId: z.string(),
+  roles: z.array(z.string()).optional(),
+  permissions: z.array(z.string()).optional(),
+  tenantIds: z.array(z.string()).optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  auth_time: z.number().optional(),
+  amr: z.array(z.string()).optional(),
+  act: z
+    .looseObject({
+      sub: z.string(),
+      type: z.string().optional(),
+      exp: z.number().optional(),
+    })
+    .optional()
+    .describe('Act object is available only when the current session is being impersonated'),
+})
+
+export type FronteggDecodedToken = z.infer<typeof FRONTEGG_DECODED_TOKEN_SCHEMA>
+
+/**
+ * Function to create the user data from the access token and its decoded payload.
+ *
+ * @throws ZodError if the payload does not contain the Frontegg user claims
+ */
+export const createUserData = (accessToken: string, payload: unknown): FronteggUserData => {
+  const parsedUserData = FRONTEGG_DECODED_TOKEN_SCHEMA.parse(payload)
+
+  return {
+    externalUserId: parsedUserData.sub,
+    accessToken,
+    email: parsedUserData.email,
+    name: parsedUserData.name,
+    profilePictureUrl: parsedUserData.profilePictureUrl,
+    externalWorkspaceId: parsedUserData.tenantId,
+    // the act object is available only when the current session is being impersonated
+    isImpersonated: parsedUserData.act !== undefined,
+    impersonation: parsedUserData.act
+      ? {
+          actorId: parsedUserData.act.sub,
+          type: parsedUserData.act.type ?? null,
+          expiresAt: parsedUserData.act.exp ? parsedUserData.act.exp * 1000 : null,
+        }
+      : null,
+    roles: parsedUserData.roles ?? [],
+    permissions: parsedUserData.permissions ?? [],
+    tenantIds: parsedUserData.tenantIds ?? [parsedUserData.tenantId],
+    metadata: parsedUserData.metadata ?? {},
+    authenticatedAt: parsedUserData.auth_time ? parsedUserData.auth_time * 1000 : null,
+    authenticationMethods: parsedUserData.amr ?? [],
+  }
+}
+
+/**
+ * Function to decode the user JWT access token and extract the user data, without verifying its signature.
+ */
+export const decodeAccessToken = (accessToken: string): FronteggUserData =>
+  createUserData(accessToken, decodeJwt(accessToken))
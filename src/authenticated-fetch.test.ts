@@ -0,0 +1,145 @@
+import { HttpResponse, http } from 'msw'
+import { setupServer } from 'msw/node'
+import type { FronteggUserData } from './access-token'
+import { createAuthenticatedFetch } from './authenticated-fetch'
+import { FronteggError } from './frontegg-error'
+
+const apiUrl = 'http://api.test-instance.local'
+
+const USER_DATA = {
+  externalUserId: 'test-user-id',
+  accessToken: 'test-access-token',
+  email: 'test@lokalise.com',
+  name: 'dummy username',
+  profilePictureUrl: null,
+  externalWorkspaceId: 'test-tenant-id',
+  isImpersonated: false,
+  impersonation: null,
+  roles: [],
+  permissions: [],
+  tenantIds: ['test-tenant-id'],
+  metadata: {},
+  authenticatedAt: null,
+  authenticationMethods: [],
+} satisfies FronteggUserData
+
+const REFRESHED_USER_DATA = { ...USER_DATA, accessToken: 'refreshed-access-token' }
+
+const createClient = () => {
+  let userData = USER_DATA
+  return {
+    getUserData: vi.fn(({ forceRefresh = false } = {}) => {
+      if (forceRefresh) {
+        userData = REFRESHED_USER_DATA
+      }
+      return Promise.resolve(userData)
+    }),
+  }
+}
+
+const server = setupServer()
+server.listen()
+
+describe('authenticated-fetch', () => {
+  beforeEach(() => {
+    server.resetHandlers()
+  })
+
+  it('attaches the access token to requests to allowed origins', async () => {
+    server.use(
+      http.get(`${apiUrl}/projects`, ({ request }) =>
+        HttpResponse.json({ authorization: request.headers.get('Authorization') }),
+      ),
+    )
+
+    const authenticatedFetch = createAuthenticatedFetch(createClient(), {
+      allowedOrigins: [apiUrl],
+    })
+    const response = await authenticatedFetch(`${apiUrl}/projects`)
+
+    expect(await response.json()).toEqual({ authorization: 'Bearer test-access-token' })
+  })
+
+  it('does not attach the access token to requests to other origins', async () => {
+    server.use(
+      http.get(`${apiUrl}/projects`, ({ request }) =>
+        HttpResponse.json({ authorization: request.headers.get('Authorization') }),
+      ),
+    )
+
+    const client = createClient()
+    const authenticatedFetch = createAuthenticatedFetch(client, {
+      allowedOrigins: ['http://other.test-instance.local'],
+    })
+    const response = await authenticatedFetch(`${apiUrl}/projects`)
+
+    expect(await response.json()).toEqual({ authorization: null })
+    expect(client.getUserData).not.toHaveBeenCalled()
+  })
+
+  it('refreshes the access token and retries the request on 401', async () => {
+    server.use(
+      http.post(`${apiUrl}/projects`, async ({ request }) => {
+        if (request.headers.get('Authorization') !== 'Bearer refreshed-access-token') {
+          return new HttpResponse(null, { status: 401 })
+        }
+        return HttpResponse.json(await request.json())
+      }),
+    )
+
+    const client = createClient()
+    const authenticatedFetch = createAuthenticatedFetch(client, { allowedOrigins: [apiUrl] })
+    const response = await authenticatedFetch(`${apiUrl}/projects`, {
+      method: 'POST',
+      body: JSON.stringify({ name: 'test-project' }),
+    })
+
+    expect(response.status).toBe(200)
+    // The body is sent again with the retried request
+    expect(await response.json()).toEqual({ name: 'test-project' })
+    expect(client.getUserData).toHaveBeenCalledWith({ forceRefresh: true })
+  })
+
+  it('refreshes the access token only once for concurrent requests', async () => {
+    server.use(
+      http.get(`${apiUrl}/projects`, ({ request }) =>
+        request.headers.get('Authorization') === 'Bearer refreshed-access-token'
+          ? HttpResponse.json({})
+          : new HttpResponse(null, { status: 401 }),
+      ),
+    )
+
+    const client = createClient()
+    const authenticatedFetch = createAuthenticatedFetch(client, { allowedOrigins: [apiUrl] })
+    const responses = await Promise.all([
+      authenticatedFetch(`${apiUrl}/projects`),
+      authenticatedFetch(`${apiUrl}/projects`),
+      authenticatedFetch(`${apiUrl}/projects`),
+    ])
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200, 200])
+    expect(client.getUserData.mock.calls.filter(([options]) => options?.forceRefresh)).toHaveLength(
+      1,
+    )
+  })
+
+  it('throws the FronteggError when the session cannot be refreshed', async () => {
+    server.use(http.get(`${apiUrl}/projects`, () => new HttpResponse(null, { status: 401 })))
+
+    const error = new FronteggError({
+      text: 'Unauthorized',
+      status: 401,
+      url: 'http://frontegg-test-instance.local/frontegg/oauth/token',
+      fronteggTraceId: 'undefined',
+      body: null,
+    })
+    const client = createClient()
+    client.getUserData.mockImplementation(({ forceRefresh = false } = {}) =>
+      forceRefresh ? Promise.reject(error) : Promise.resolve(USER_DATA),
+    )
+
+    const authenticatedFetch = createAuthenticatedFetch(client, { allowedOrigins: [apiUrl] })
+
+    await expect(authenticatedFetch(`${apiUrl}/projects`)).rejects.toBe(error)
+  })
+})
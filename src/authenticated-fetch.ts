@@ -0,0 +1,88 @@
+import type { FronteggUserData } from './access-token'
+
+export interface AuthenticatedFetchOptions {
+  /**
+   * Origins the access token is attached to, requests to other origins are sent without it.
+   * Defaults to the origin of the current page.
+   */
+  allowedOrigins?: string[]
+  /**
+   * Fetch function used to send the requests. Defaults to the global `fetch`.
+   */
+  fetch?: typeof fetch
+}
+
+export type AuthenticatedFetch = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>
+
+/**
+ * Function to resolve the fetch input to a request with an absolute URL, so its origin can be checked.
+ */
+const toRequest = (input: RequestInfo | URL, init?: RequestInit) => {
+  if (input instanceof Request) {
+    return new Request(input, init)
+  }
+
+  const baseUrl = typeof location !== 'undefined' ? location.href : undefined
+  return new Request(new URL(input, baseUrl), init)
+}
+
+const withAccessToken = (request: Request, accessToken: string) => {
+  const authenticatedRequest = request.clone()
+  authenticatedRequest.headers.set('Authorization', `Bearer ${accessToken}`)
+  return authenticatedRequest
+}
+
+/**
+ * Function to create a fetch function attaching the Frontegg access token to requests to allowed origins.
+ * If the server responds with 401, the access token is refreshed and the request is retried once.
+ * Requests made while the refresh is in progress wait for it, so the token is refreshed only once.
+ * When the session cannot be refreshed, the `FronteggError` from the client is thrown.
+ *
+ * @returns a function with the same signature as the global fetch
+ */
+export const createAuthenticatedFetch = (
+  client: {
+    getUserData(options?: { forceRefresh?: boolean }): Promise<FronteggUserData>
+  },
+  options: AuthenticatedFetchOptions = {},
+): AuthenticatedFetch => {
+  const allowedOrigins =
+    options.allowedOrigins ?? (typeof location !== 'undefined' ? [location.origin] : [])
+  const fetchFunction = options.fetch ?? ((input, init) => fetch(input, init))
+  let refreshPromise: Promise<FronteggUserData> | null = null
+
+  const refreshUserData = (rejectedAccessToken: string) => {
+    if (!refreshPromise) {
+      refreshPromise = client
+        .getUserData()
+        .then((userData) =>
+          // Another request might have refreshed the token already while this one was in flight
+          userData.accessToken === rejectedAccessToken
+            ? client.getUserData({ forceRefresh: true })
+            : userData,
+        )
+        .finally(() => {
+          refreshPromise = null
+        })
+    }
+
+    return refreshPromise
+  }
+
+  return async (input, init) => {
+    const request = toRequest(input, init)
+
+    if (!allowedOrigins.includes(new URL(request.url).origin)) {
+      return await fetchFunction(request)
+    }
+
+    const userData = await (refreshPromise ?? client.getUserData())
+    const response = await fetchFunction(withAccessToken(request, userData.accessToken))
+    if (response.status !== 401) {
+      return response
+    }
+
+    const refreshedUserData = await refreshUserData(userData.accessToken)
+    return await fetchFunction(withAccessToken(request, refreshedUserData.accessToken))
+  }
+}
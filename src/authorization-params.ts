@@ -0,0 +1,73 @@
+/**
+ * Scope requested when neither the client nor the login specify one.
+ */
+export const DEFAULT_SCOPE = 'openid profile email'
+
+/**
+ * Parameters of the OAuth authorization request controlling the Frontegg hosted login page.
+ */
+export interface FronteggAuthorizationParams {
+  /**
+   * Space separated scopes. Defaults to `openid profile email`.
+   */
+  scope?: string
+  /**
+   * `login` forces the user to authenticate again even with an active Frontegg session,
+   * `none` fails with `login_required` instead of showing the login page.
+   */
+  prompt?: 'none' | 'login' | 'consent' | 'select_account'
+  /**
+   * Email pre-filled on the login page.
+   */
+  loginHint?: string
+  /**
+   * Preferred languages of the login page, e.g. `de` or `['de-CH', 'de']`.
+   */
+  uiLocales?: string | string[]
+  /**
+   * Maximum time in seconds since the last authentication,
+   * the user has to authenticate again when it is exceeded.
+   */
+  maxAge?: number
+  /**
+   * Tenant (organization) the user should log in to.
+   */
+  organization?: string
+  /**
+   * Additional query parameters. They cannot override the parameters of the OAuth flow
+   * (e.g. `client_id`, `redirect_uri` or `state`), which are set by the client.
+   */
+  extraParams?: Record<string, string>
+}
+
+/**
+ * Function to merge the login parameters into the client defaults, the extra params are merged key by key.
+ */
+export const mergeAuthorizationParams = (
+  defaults: FronteggAuthorizationParams,
+  params: FronteggAuthorizationParams,
+): FronteggAuthorizationParams => ({
+  ...defaults,
+  ...params,
+  extraParams: { ...defaults.extraParams, ...params.extraParams },
+})
+
+/**
+ * Function to set the authorization parameters as the query parameters of the authorize URL.
+ * It has to be called before the parameters of the OAuth flow are set, so the extra params cannot override them.
+ */
+export const setAuthorizationParams = (url: URL, params: FronteggAuthorizationParams) => {
+  for (const [key, value] of Object.entries(params.extraParams ?? {})) {
+    url.searchParams.set(key, value)
+  }
+
+  url.searchParams.set('scope', params.scope ?? DEFAULT_SCOPE)
+  if (params.prompt) url.searchParams.set('prompt', params.prompt)
+  if (params.loginHint) url.searchParams.set('login_hint', params.loginHint)
+  if (params.uiLocales) {
+    const uiLocales = Array.isArray(params.uiLocales) ? params.uiLocales : [params.uiLocales]
+    url.searchParams.set('ui_locales', uiLocales.join(' '))
+  }
+  if (params.maxAge !== undefined) url.searchParams.set('max_age', String(params.maxAge))
+  if (params.organization) url.searchParams.set('organization', params.organization)
+}
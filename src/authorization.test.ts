@@ -0,0 +1,47 @@
+import { hasAllPermissions, hasPermission, hasRole } from './authorization'
+
+const USER_DATA = {
+  roles: ['Admin', 'Translator'],
+  permissions: ['fe.secure.*', 'projects.read', 'projects.write'],
+}
+
+describe('authorization', () => {
+  describe('hasRole', () => {
+    it('checks if the user has the role', () => {
+      expect(hasRole(USER_DATA, 'Admin')).toBe(true)
+      expect(hasRole(USER_DATA, 'admin')).toBe(false)
+      expect(hasRole({ roles: [] }, 'Admin')).toBe(false)
+    })
+  })
+
+  describe('hasPermission', () => {
+    it('checks if the user has the exact permission', () => {
+      expect(hasPermission(USER_DATA, 'projects.read')).toBe(true)
+      expect(hasPermission(USER_DATA, 'projects.delete')).toBe(false)
+    })
+
+    it('matches permissions covered by a granted wildcard', () => {
+      expect(hasPermission(USER_DATA, 'fe.secure.read.users')).toBe(true)
+      expect(hasPermission(USER_DATA, 'fe.securex')).toBe(false)
+      expect(hasPermission(USER_DATA, 'fe.connectivity.read')).toBe(false)
+    })
+
+    it('matches a requested wildcard against granted permissions', () => {
+      expect(hasPermission(USER_DATA, 'projects.*')).toBe(true)
+      expect(hasPermission(USER_DATA, 'tasks.*')).toBe(false)
+    })
+
+    it('treats other characters in wildcards literally', () => {
+      expect(hasPermission({ permissions: ['projects.read'] }, 'projects?read')).toBe(false)
+      expect(hasPermission({ permissions: ['projectsXread'] }, 'projects.*')).toBe(false)
+    })
+  })
+
+  describe('hasAllPermissions', () => {
+    it('checks if the user has all the permissions', () => {
+      expect(hasAllPermissions(USER_DATA, ['projects.read', 'fe.secure.write.users'])).toBe(true)
+      expect(hasAllPermissions(USER_DATA, ['projects.read', 'projects.delete'])).toBe(false)
+      expect(hasAllPermissions(USER_DATA, [])).toBe(true)
+    })
+  })
+})
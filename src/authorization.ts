@@ -0,0 +1,42 @@
+import type { FronteggUserData } from './access-token'
+
+/**
+ * Function to check if the key matches the pattern, `*` in the pattern matches any sequence of characters.
+ */
+const matchesPattern = (pattern: string, key: string) => {
+  if (!pattern.includes('*')) {
+    return pattern === key
+  }
+
+  const escapedParts = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+  return new RegExp(`^${escapedParts.join('.*')}$`).test(key)
+}
+
+/**
+ * Function to check if the user has the role in the current tenant.
+ */
+export const hasRole = (userData: Pick<FronteggUserData, 'roles'>, role: string) =>
+  userData.roles.includes(role)
+
+/**
+ * Function to check if the user has the permission in the current tenant.
+ * Wildcards are supported on both sides: the granted permission `fe.secure.*` covers `fe.secure.read.users`,
+ * and checking `fe.secure.*` succeeds when the user has any permission starting with `fe.secure.`.
+ */
+export const hasPermission = (
+  userData: Pick<FronteggUserData, 'permissions'>,
+  permission: string,
+) =>
+  userData.permissions.some(
+    (grantedPermission) =>
+      matchesPattern(grantedPermission, permission) ||
+      matchesPattern(permission, grantedPermission),
+  )
+
+/**
+ * Function to check if the user has all the permissions in the current tenant, see `hasPermission`.
+ */
+export const hasAllPermissions = (
+  userData: Pick<FronteggUserData, 'permissions'>,
+  permissions: string[],
+) => permissions.every((permission) => hasPermission(userData, permission))
@@ -0,0 +1,92 @@
+import { FronteggRegionSelector, getFronteggOAuthClient } from './client-registry'
+import { InMemoryTokenStorage } from './token-storage'
+
+const createClientConfig = (baseUrl: string, clientId = 'test-client-id') => ({
+  baseUrl,
+  clientId,
+  redirectUri: 'http://localhost:3000/oauth/callback',
+  logoutRedirectUri: 'http://localhost:3000',
+})
+
+const euConfig = createClientConfig('http://frontegg-eu.local')
+const usConfig = createClientConfig('http://frontegg-us.local')
+
+describe('client-registry', () => {
+  beforeEach(() => {
+    delete (globalThis as Record<symbol, unknown>)[Symbol.for('frontegg-oauth-client:registry')]
+  })
+
+  describe('getFronteggOAuthClient', () => {
+    it('returns the same client for the same base URL and client id', () => {
+      const client = getFronteggOAuthClient(euConfig)
+
+      expect(getFronteggOAuthClient({ ...euConfig, baseUrl: 'http://frontegg-eu.local/' })).toBe(
+        client,
+      )
+      expect(getFronteggOAuthClient(usConfig)).not.toBe(client)
+      expect(getFronteggOAuthClient({ ...euConfig, clientId: 'other-client-id' })).not.toBe(client)
+    })
+  })
+
+  describe('FronteggRegionSelector', () => {
+    const createSelector = (preferenceStorage = new InMemoryTokenStorage()) =>
+      new FronteggRegionSelector({
+        regions: { eu: euConfig, us: usConfig },
+        defaultRegion: 'eu',
+        emailDomains: { 'lokalise.com': 'us' },
+        preferenceStorage,
+      })
+
+    it('selects the explicit region before the email domain', () => {
+      const selector = createSelector()
+
+      expect(selector.getRegion({ region: 'eu', email: 'test@lokalise.com' })).toBe('eu')
+    })
+
+    it('selects the region by the email domain', () => {
+      const selector = createSelector()
+
+      expect(selector.getRegion({ email: 'Test@Lokalise.com' })).toBe('us')
+      expect(selector.getRegion({ email: 'test@example.com' })).toBe('eu')
+    })
+
+    it('selects the preferred region when the hint does not select any', () => {
+      const selector = createSelector()
+      selector.setPreferredRegion('us')
+
+      expect(selector.getRegion()).toBe('us')
+      expect(selector.getRegion({ region: 'unknown', email: 'test@example.com' })).toBe('us')
+    })
+
+    it('ignores an unknown preferred region', () => {
+      const preferenceStorage = new InMemoryTokenStorage()
+      preferenceStorage.set('frontegg-oauth-client:region', 'unknown')
+
+      expect(createSelector(preferenceStorage).getRegion()).toBe('eu')
+    })
+
+    it('returns the shared client of the selected region and remembers the region', () => {
+      const selector = createSelector()
+
+      const client = selector.getClient({ email: 'test@lokalise.com' })
+
+      expect(client).toBe(getFronteggOAuthClient(usConfig))
+      expect(selector.getClient()).toBe(client)
+    })
+
+    it('does not remember the preferred or the default region', () => {
+      const preferenceStorage = new InMemoryTokenStorage()
+      const selector = createSelector(preferenceStorage)
+
+      expect(selector.getClient({ email: 'test@example.com' })).toBe(
+        getFronteggOAuthClient(euConfig),
+      )
+      expect(preferenceStorage.get('frontegg-oauth-client:region')).toBeNull()
+
+      preferenceStorage.set('frontegg-oauth-client:region', 'unknown')
+      selector.getClient()
+
+      expect(preferenceStorage.get('frontegg-oauth-client:region')).toBe('unknown')
+    })
+  })
+})
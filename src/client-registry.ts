@@ -0,0 +1,163 @@
+import { FronteggOAuthClient, type FronteggOAuthClientConfig } from './frontegg-oauth-client'
+import { getStorageNamespace } from './storage-namespace'
+import type { TokenStorage } from './token-storage'
+
+/**
+ * Key of the registry on `globalThis`. `Symbol.for` returns the same symbol in every bundle,
+ * so the clients are shared even when the library is bundled more than once on the page.
+ */
+const CLIENT_REGISTRY_KEY = Symbol.for('frontegg-oauth-client:registry')
+
+/**
+ * Key of the preferred region in the preference storage when not configured otherwise.
+ */
+const DEFAULT_REGION_PREFERENCE_KEY = 'frontegg-oauth-client:region'
+
+type GlobalWithClientRegistry = typeof globalThis & {
+  [CLIENT_REGISTRY_KEY]?: Map<string, FronteggOAuthClient>
+}
+
+/**
+ * Function to get the registry of the clients shared by all bundles on the page.
+ */
+const getClientRegistry = () => {
+  const globalObject = globalThis as GlobalWithClientRegistry
+  globalObject[CLIENT_REGISTRY_KEY] ??= new Map()
+  return globalObject[CLIENT_REGISTRY_KEY]
+}
+
+/**
+ * Returns the client shared by all callers with the same `baseUrl` and `clientId`, creating it on the first call.
+ * Micro-frontends or separately bundled parts of the application should use it instead of the constructor,
+ * so the session is refreshed only once.
+ * The rest of the config is taken from the first call, it is ignored when the client already exists.
+ */
+export const getFronteggOAuthClient = (config: FronteggOAuthClientConfig) => {
+  const registry = getClientRegistry()
+  const storageNamespace = getStorageNamespace(config)
+
+  let client = registry.get(storageNamespace)
+  if (!client) {
+    client = new FronteggOAuthClient(config)
+    registry.set(storageNamespace, client)
+  }
+  return client
+}
+
+/**
+ * Hint used to select the region of the user.
+ */
+export interface FronteggRegionHint {
+  /**
+   * Region selected explicitly, e.g. by the user on the login page of the application.
+   */
+  region?: string
+  /**
+   * Email of the user, the region is selected by its domain.
+   */
+  email?: string
+}
+
+export interface FronteggRegionSelectorOptions<Region extends string> {
+  /**
+   * Config of the client of each region.
+   */
+  regions: Record<Region, FronteggOAuthClientConfig>
+  /**
+   * Region used when the hint does not select any and there is no preferred region.
+   */
+  defaultRegion: NoInfer<Region>
+  /**
+   * Regions of the email domains, e.g. `{ 'lokalise.com': 'eu' }`.
+   */
+  emailDomains?: Record<string, NoInfer<Region>>
+  /**
+   * Storage of the preferred region, which is remembered when the region is selected by the hint.
+   * The region is not remembered when omitted.
+   */
+  preferenceStorage?: TokenStorage
+  /**
+   * Key of the preferred region in the preference storage.
+   */
+  preferenceKey?: string
+}
+
+/**
+ * Selects the Frontegg region (instance) of the user before the login, e.g. from the email domain
+ * or the region remembered from the previous login, and returns its shared client.
+ */
+export class FronteggRegionSelector<Region extends string> {
+  private readonly regions: Record<Region, FronteggOAuthClientConfig>
+  private readonly defaultRegion: Region
+  private readonly emailDomains: Record<string, Region>
+  private readonly preferenceStorage: TokenStorage | null
+  private readonly preferenceKey: string
+
+  constructor(options: FronteggRegionSelectorOptions<Region>) {
+    this.regions = options.regions
+    this.defaultRegion = options.defaultRegion
+    this.emailDomains = options.emailDomains ?? {}
+    this.preferenceStorage = options.preferenceStorage ?? null
+    this.preferenceKey = options.preferenceKey ?? DEFAULT_REGION_PREFERENCE_KEY
+  }
+
+  /**
+   * Function to select the region by the hint.
+   * The explicit region takes precedence over the email domain, followed by the preferred and the default region.
+   * Unknown regions and domains are ignored.
+   */
+  public getRegion(hint: FronteggRegionHint = {}): Region {
+    const hintedRegion = this.getHintedRegion(hint)
+    if (hintedRegion) {
+      return hintedRegion
+    }
+
+    const preferredRegion = this.preferenceStorage?.get(this.preferenceKey)
+    if (preferredRegion && this.isRegion(preferredRegion)) {
+      return preferredRegion
+    }
+
+    return this.defaultRegion
+  }
+
+  /**
+   * Function to remember the region, so it is selected when the hint does not select any.
+   */
+  public setPreferredRegion(region: Region) {
+    this.preferenceStorage?.set(this.preferenceKey, region)
+  }
+
+  /**
+   * Returns the shared client of the region selected by the hint, see `getFronteggOAuthClient`.
+   * The region selected by the hint itself is remembered as the preferred one.
+   */
+  public getClient(hint: FronteggRegionHint = {}) {
+    const hintedRegion = this.getHintedRegion(hint)
+    if (hintedRegion) {
+      this.setPreferredRegion(hintedRegion)
+    }
+
+    return getFronteggOAuthClient(this.regions[this.getRegion(hint)])
+  }
+
+  /**
+   * Function to select the region by the explicit region or the email domain of the hint.
+   * Returns `null` when the hint does not select any region.
+   */
+  private getHintedRegion(hint: FronteggRegionHint): Region | null {
+    if (hint.region && this.isRegion(hint.region)) {
+      return hint.region
+    }
+
+    const emailDomain = hint.email?.split('@').pop()?.toLowerCase()
+    if (emailDomain && Object.hasOwn(this.emailDomains, emailDomain)) {
+      return this.emailDomains[emailDomain]
+    }
+
+    return null
+  }
+
+  private isRegion(region: string): region is Region {
+    return Object.hasOwn(this.regions, region)
+  }
+}
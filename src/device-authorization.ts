@@ -0,0 +1,130 @@
+import { z } from 'zod'
+import { FronteggError } from './frontegg-error'
+import type { Clock } from './runtime'
+
+/**
+ * Grant type of the token request polling for the device authorization, see RFC 8628.
+ */
+export const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code'
+
+/**
+ * Polling interval in seconds when Frontegg does not specify any, see RFC 8628, section 3.2.
+ */
+const DEFAULT_POLLING_INTERVAL_SECONDS = 5
+
+/**
+ * Seconds added to the polling interval on every `slow_down` error, see RFC 8628, section 3.5.
+ */
+const SLOW_DOWN_INTERVAL_INCREMENT_SECONDS = 5
+
+const DEVICE_AUTHORIZATION_RESPONSE_SCHEMA = z.object({
+  device_code: z.string(),
+  user_code: z.string(),
+  verification_uri: z.string(),
+  verification_uri_complete: z.string().optional(),
+  expires_in: z.number(),
+  interval: z.number().optional(),
+})
+
+const DEVICE_TOKEN_ERROR_SCHEMA = z.looseObject({
+  error: z.string(),
+})
+
+/**
+ * Pending device authorization, the user code and the verification URI should be displayed to the user.
+ */
+export interface FronteggDeviceAuthorization {
+  /**
+   * Code identifying the device when polling for the tokens, it must not be displayed to the user.
+   */
+  deviceCode: string
+  /**
+   * Code the user enters on the verification page.
+   */
+  userCode: string
+  /**
+   * URL of the verification page the user opens on another device.
+   */
+  verificationUri: string
+  /**
+   * URL of the verification page with the user code pre-filled (e.g. for a QR code), null when not provided.
+   */
+  verificationUriComplete: string | null
+  /**
+   * Time in milliseconds since epoch when the device code expires.
+   */
+  expiresAt: number
+  /**
+   * Minimum time in seconds between polling requests.
+   */
+  intervalSeconds: number
+}
+
+/**
+ * Reason why the device authorization was not completed:
+ * - `expiredToken` - the device code expired before the user approved the authorization
+ * - `accessDenied` - the user denied the authorization
+ */
+export type FronteggDeviceAuthorizationErrorReason = 'expiredToken' | 'accessDenied'
+
+/**
+ * Error thrown when the device authorization is not approved by the user.
+ */
+export class FronteggDeviceAuthorizationError extends Error {
+  reason: FronteggDeviceAuthorizationErrorReason
+
+  constructor(reason: FronteggDeviceAuthorizationErrorReason, message: string) {
+    super(message)
+    this.name = 'FronteggDeviceAuthorizationError'
+
+    this.reason = reason
+  }
+}
+
+/**
+ * Function to create the device authorization from the response of the device authorization endpoint.
+ *
+ * @throws ZodError if the response is not valid
+ */
+export const createDeviceAuthorization = (
+  json: unknown,
+  clock: Clock,
+): FronteggDeviceAuthorization => {
+  const data = DEVICE_AUTHORIZATION_RESPONSE_SCHEMA.parse(json)
+
+  return {
+    deviceCode: data.device_code,
+    userCode: data.user_code,
+    verificationUri: data.verification_uri,
+    verificationUriComplete: data.verification_uri_complete ?? null,
+    expiresAt: clock.now() + data.expires_in * 1000,
+    intervalSeconds: data.interval ?? DEFAULT_POLLING_INTERVAL_SECONDS,
+  }
+}
+
+/**
+ * Function to handle the failed polling request of the device authorization.
+ *
+ * @returns the polling interval in seconds for the next request when the authorization is still pending
+ * @throws FronteggDeviceAuthorizationError if the device code expired or the user denied the authorization
+ * @throws the original error if it is not a device authorization error
+ */
+export const handleDeviceTokenError = (error: unknown, intervalSeconds: number) => {
+  const result =
+    error instanceof FronteggError ? DEVICE_TOKEN_ERROR_SCHEMA.safeParse(error.body) : null
+  switch (result?.success ? result.data.error : null) {
+    case 'authorization_pending':
+      return intervalSeconds
+    case 'slow_down':
+      return intervalSeconds + SLOW_DOWN_INTERVAL_INCREMENT_SECONDS
+    case 'expired_token':
+      throw new FronteggDeviceAuthorizationError('expiredToken', 'Device code has expired.')
+    case 'access_denied':
+      throw new FronteggDeviceAuthorizationError(
+        'accessDenied',
+        'User denied the device authorization.',
+      )
+    default:
+      throw error
+  }
+}
@@ -0,0 +1,142 @@
+import { delay, HttpResponse, http } from 'msw'
+import { setupServer } from 'msw/node'
+
+import { fetchWithAssert } from './fetch-with-assert'
+
+const url = 'http://frontegg-test-instance.local/frontegg/oauth/token'
+const fastRetry = { retry: { minDelayMs: 1, maxDelayMs: 100 } }
+
+const server = setupServer()
+server.listen()
+
+/**
+ * Serves the responses one by one, the last response is served for all following requests.
+ */
+const serveResponses = (...responses: (() => Response)[]) => {
+  let requests = 0
+  server.use(http.post(url, () => responses[Math.min(requests++, responses.length - 1)]()))
+  return () => requests
+}
+
+describe('fetch-with-assert', () => {
+  beforeEach(() => {
+    server.resetHandlers()
+  })
+
+  it('returns the successful response', async () => {
+    serveResponses(() => HttpResponse.json({ ok: true }))
+
+    const response = await fetchWithAssert(url, { method: 'POST' }, fastRetry)
+
+    await expect(response.json()).resolves.toEqual({ ok: true })
+  })
+
+  it('captures the parsed body of the failed response', async () => {
+    const getRequests = serveResponses(() =>
+      HttpResponse.json(
+        { errors: ['Invalid grant'] },
+        { status: 400, headers: { 'frontegg-trace-id': 'test-trace-id' } },
+      ),
+    )
+
+    await expect(fetchWithAssert(url, { method: 'POST' }, fastRetry)).rejects.toMatchObject({
+      kind: 'http',
+      status: 400,
+      text: '{"errors":["Invalid grant"]}',
+      body: { errors: ['Invalid grant'] },
+      fronteggTraceId: 'test-trace-id',
+    })
+    expect(getRequests()).toBe(1)
+  })
+
+  it('does not retry unauthenticated requests', async () => {
+    const getRequests = serveResponses(() => new HttpResponse(null, { status: 401 }))
+
+    await expect(fetchWithAssert(url, { method: 'POST' }, fastRetry)).rejects.toMatchObject({
+      kind: 'unauthenticated',
+      status: 401,
+    })
+    expect(getRequests()).toBe(1)
+  })
+
+  it('retries transient failures', async () => {
+    const getRequests = serveResponses(
+      () => new HttpResponse('Bad gateway', { status: 502 }),
+      () => HttpResponse.error(),
+      () => HttpResponse.json({ ok: true }),
+    )
+
+    const response = await fetchWithAssert(url, { method: 'POST' }, fastRetry)
+
+    expect(response.status).toBe(200)
+    expect(getRequests()).toBe(3)
+  })
+
+  it('throws the last failure once the retries are exhausted', async () => {
+    const getRequests = serveResponses(() => HttpResponse.error())
+
+    await expect(
+      fetchWithAssert(url, { method: 'POST' }, { retry: { ...fastRetry.retry, retries: 3 } }),
+    ).rejects.toMatchObject({ kind: 'network', status: 0, text: 'Failed to fetch' })
+    expect(getRequests()).toBe(4)
+  })
+
+  it('waits for the time requested by the rate limited response', async () => {
+    const getRequests = serveResponses(
+      () => new HttpResponse(null, { status: 429, headers: { 'Retry-After': '0' } }),
+      () => HttpResponse.json({ ok: true }),
+    )
+
+    const response = await fetchWithAssert(url, { method: 'POST' }, fastRetry)
+
+    expect(response.status).toBe(200)
+    expect(getRequests()).toBe(2)
+  })
+
+  it('does not retry the rate limited response asking to wait longer than the maximum delay', async () => {
+    const getRequests = serveResponses(
+      () => new HttpResponse(null, { status: 429, headers: { 'Retry-After': '3600' } }),
+    )
+
+    await expect(fetchWithAssert(url, { method: 'POST' }, fastRetry)).rejects.toMatchObject({
+      kind: 'rateLimited',
+      status: 429,
+    })
+    expect(getRequests()).toBe(1)
+  })
+
+  it('aborts the request which does not respond in time', async () => {
+    server.use(
+      http.post(url, async () => {
+        await delay(200)
+        return HttpResponse.json({ ok: true })
+      }),
+    )
+
+    await expect(
+      fetchWithAssert(url, { method: 'POST' }, { retry: { retries: 0 }, timeoutMs: 20 }),
+    ).rejects.toMatchObject({ kind: 'timeout', status: 0 })
+  })
+
+  it('rejects with the abort reason without retrying when the request is aborted', async () => {
+    const getRequests = serveResponses(() => new HttpResponse(null, { status: 503 }))
+    const controller = new AbortController()
+    const reason = new Error('Aborted by the test.')
+
+    // The full jitter would otherwise allow a retry right away
+    const randomSpy = vi.spyOn(Math, 'random').mockReturnValue(1)
+
+    const response = fetchWithAssert(
+      url,
+      { method: 'POST', signal: controller.signal },
+      { retry: { minDelayMs: 1000, maxDelayMs: 1000 } },
+    )
+    const rejection = expect(response).rejects.toBe(reason)
+    await vi.waitFor(() => expect(getRequests()).toBe(1))
+    controller.abort(reason)
+
+    await rejection
+    expect(getRequests()).toBe(1)
+    randomSpy.mockRestore()
+  })
+})
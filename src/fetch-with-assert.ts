@@ -0,0 +1,210 @@
+import { FronteggError } from './frontegg-error'
+
+export interface RetryOptions {
+  /**
+   * Number of retries after the first attempt. Defaults to 2.
+   */
+  retries?: number
+  /**
+   * Base delay in milliseconds of the exponential backoff. Defaults to 200 ms.
+   */
+  minDelayMs?: number
+  /**
+   * Maximum delay in milliseconds between two attempts. Defaults to 5 seconds.
+   * Rate limited requests asking to wait longer by `Retry-After` are not retried.
+   */
+  maxDelayMs?: number
+}
+
+export interface FetchWithAssertOptions {
+  /**
+   * Defaults to the global `fetch`.
+   */
+  fetch?: typeof fetch
+  retry?: RetryOptions
+  /**
+   * Time in milliseconds to wait for the response of a single attempt. Defaults to 10 seconds.
+   */
+  timeoutMs?: number
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  retries: 2,
+  minDelayMs: 200,
+  maxDelayMs: 5 * 1000,
+}
+
+const DEFAULT_TIMEOUT_MS = 10 * 1000
+
+/**
+ * Statuses of transient failures, which are worth retrying.
+ */
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504])
+
+const DEFAULT_ERROR_MESSAGE = 'Error while fetching Frontegg endpoint.'
+
+/**
+ * Function to wait before the next attempt, the wait is interrupted when the request is aborted.
+ */
+export const wait = (delayMs: number, signal: AbortSignal | null | undefined) =>
+  new Promise<void>((resolve, reject) => {
+    const handleAbort = () => {
+      clearTimeout(timeout)
+      reject(signal?.reason)
+    }
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort)
+      resolve()
+    }, delayMs)
+    signal?.addEventListener('abort', handleAbort, { once: true })
+  })
+
+/**
+ * Function to calculate the delay before the next attempt using the exponential backoff with full jitter,
+ * so clients failing at the same time do not retry at the same time.
+ */
+const getBackoffDelay = (attempt: number, retry: Required<RetryOptions>) =>
+  Math.random() * Math.min(retry.maxDelayMs, retry.minDelayMs * 2 ** attempt)
+
+/**
+ * Function to parse the `Retry-After` header, which contains either seconds or an HTTP date.
+ *
+ * @returns the delay in milliseconds, or null if the header is missing or invalid
+ */
+const parseRetryAfter = (retryAfter: string | null) => {
+  if (!retryAfter) {
+    return null
+  }
+
+  const seconds = Number(retryAfter)
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0)
+  }
+
+  const date = Date.parse(retryAfter)
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0)
+}
+
+/**
+ * Function to get the delay before retrying the failed response.
+ *
+ * @returns the delay in milliseconds, or null if the response should not be retried
+ */
+const getResponseRetryDelay = (
+  response: Response,
+  attempt: number,
+  retry: Required<RetryOptions>,
+) => {
+  if (!RETRYABLE_STATUSES.has(response.status)) {
+    return null
+  }
+
+  const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'))
+  if (retryAfterMs === null) {
+    return getBackoffDelay(attempt, retry)
+  }
+  return retryAfterMs <= retry.maxDelayMs ? retryAfterMs : null
+}
+
+/**
+ * Function to create the error from the failed response, capturing its parsed body.
+ */
+const createResponseError = async (url: string, response: Response) => {
+  const text = await response.text().catch(() => '')
+  let body: unknown = text || null
+  try {
+    body = JSON.parse(text)
+  } catch {
+    // The body is not JSON, it is kept as text
+  }
+
+  return new FronteggError({
+    text: text || DEFAULT_ERROR_MESSAGE,
+    url,
+    fronteggTraceId: response.headers.get('frontegg-trace-id') ?? 'undefined',
+    status: response.status,
+    body,
+  })
+}
+
+/**
+ * Function to fetch a single attempt, which is aborted when it takes longer than the timeout.
+ *
+ * @throws FronteggError of the `network` or `timeout` kind, or the abort reason when the request is aborted
+ */
+const fetchWithTimeout = async (
+  url: string,
+  init: RequestInit,
+  { fetch: fetchFunction = fetch, timeoutMs }: { fetch?: typeof fetch; timeoutMs: number },
+) => {
+  const { signal } = init
+  signal?.throwIfAborted()
+
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), timeoutMs)
+  const handleAbort = () => controller.abort(signal?.reason)
+  signal?.addEventListener('abort', handleAbort, { once: true })
+
+  try {
+    return await fetchFunction(url, { ...init, signal: controller.signal })
+  } catch (error: unknown) {
+    signal?.throwIfAborted()
+
+    const isTimeout = controller.signal.aborted
+    throw new FronteggError({
+      kind: isTimeout ? 'timeout' : 'network',
+      text: isTimeout
+        ? `Frontegg did not respond within ${timeoutMs} ms.`
+        : error instanceof Error
+          ? error.message
+          : DEFAULT_ERROR_MESSAGE,
+      status: 0,
+      url,
+      fronteggTraceId: 'undefined',
+      body: null,
+    })
+  } finally {
+    clearTimeout(timeout)
+    signal?.removeEventListener('abort', handleAbort)
+  }
+}
+
+/**
+ * Fetch function that throws an error if the response is not ok.
+ * Transient failures (network errors, timeouts, 502, 503, 504 and 429) are retried with a jittered exponential backoff,
+ * rate limited requests wait for the time requested by the `Retry-After` header.
+ *
+ * @throws FronteggError describing the last failure
+ */
+export const fetchWithAssert = async (
+  url: string,
+  init: RequestInit,
+  options: FetchWithAssertOptions = {},
+) => {
+  const retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry }
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response
+    try {
+      response = await fetchWithTimeout(url, init, { fetch: options.fetch, timeoutMs })
+    } catch (error: unknown) {
+      if (!(error instanceof FronteggError) || attempt >= retry.retries) {
+        throw error
+      }
+      await wait(getBackoffDelay(attempt, retry), init.signal)
+      continue
+    }
+
+    if (response.ok) {
+      return response
+    }
+
+    const error = await createResponseError(url, response)
+    const delay = attempt < retry.retries ? getResponseRetryDelay(response, attempt, retry) : null
+    if (delay === null) {
+      throw error
+    }
+    await wait(delay, init.signal)
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Kind of the failure, allows handling errors without checking the status codes:
+ * - `unauthenticated` - Frontegg responded with 401, the user needs to log in again
+ * - `rateLimited` - Frontegg responded with 429 and the request was not retried anymore
+ * - `http` - Frontegg responded with another error status
+ * - `network` - the request failed before Frontegg responded
+ * - `timeout` - Frontegg did not respond in time
+ * - `invalidResponse` - the response of Frontegg could not be parsed or validated
+ */
+export type FronteggErrorKind =
+  | 'unauthenticated'
+  | 'rateLimited'
+  | 'http'
+  | 'network'
+  | 'timeout'
+  | 'invalidResponse'
+
+/**
+ * Function to get the kind of the error from the response status.
+ */
+const getErrorKindByStatus = (status: number): FronteggErrorKind => {
+  if (status === 401) {
+    return 'unauthenticated'
+  }
+  if (status === 429) {
+    return 'rateLimited'
+  }
+  return 'http'
+}
+
+/**
+ * Frontegg specific error that contains extra fields for easier debugging.
+ */
+export class FronteggError extends Error {
+  kind: FronteggErrorKind
+  text: string
+  /**
+   * Status of the Frontegg response, 0 when Frontegg did not respond.
+   */
+  status: number
+  url: string
+  // https://support.frontegg.com/hc/en-us/articles/7027392266525-How-do-I-find-the-frontegg-trace-id
+  fronteggTraceId: string
+  body: unknown
+
+  constructor(options: {
+    /**
+     * Defaults to the kind matching the status.
+     */
+    kind?: FronteggErrorKind
+    text: string
+    status: number
+    url: string
+    fronteggTraceId: string
+    body: unknown
+  }) {
+    super()
+    this.name = 'FronteggError'
+
+    this.kind = options.kind ?? getErrorKindByStatus(options.status)
+    this.text = options.text
+    this.status = options.status
+    this.url = options.url
+    this.fronteggTraceId = options.fronteggTraceId
+    this.body = options.body
+  }
+
+  override toString() {
+    return this.message
+  }
+
+  override get message(): string {
+    return JSON.stringify({
+      kind: this.kind,
+      text: this.text,
+      status: this.status,
+      url: this.url,
+      fronteggTraceId: this.fronteggTraceId,
+      body: this.body,
+    })
+  }
+}
@@ -1,14 +1,66 @@
 import { z } from 'zod'
-
-export interface FronteggUserData {
-  externalUserId: string
-  accessToken: string
-  name: string
-  email: string
-  profilePictureUrl: string | null | undefined
-  externalWorkspaceId: string
-  isImpersonated: boolean
-}
+import { decodeAccessToken, type FronteggUserData } from './access-token'
+import { type AuthenticatedFetchOptions, createAuthenticatedFetch } from './authenticated-fetch'
+import {
+  DEFAULT_SCOPE,
+  type FronteggAuthorizationParams,
+  mergeAuthorizationParams,
+  setAuthorizationParams,
+} from './authorization-params'
+import {
+  createDeviceAuthorization,
+  DEVICE_CODE_GRANT_TYPE,
+  type FronteggDeviceAuthorization,
+  FronteggDeviceAuthorizationError,
+  handleDeviceTokenError,
+} from './device-authorization'
+import {
+  type FetchWithAssertOptions,
+  fetchWithAssert,
+  type RetryOptions,
+  wait,
+} from './fetch-with-assert'
+import { FronteggError } from './frontegg-error'
+import { decodeIdToken, type IdTokenClaims, parseIdTokenClaims } from './id-token'
+import { JwksVerifier } from './jwks'
+import { decodeJwt } from './jwt'
+import {
+  consumeLegacyCodeVerifier,
+  consumeLoginTransaction,
+  getLatestLoginState,
+  removeLoginTransactions,
+  saveLoginTransaction,
+} from './login-transaction'
+import {
+  createLoginIframe,
+  LOGIN_WINDOW_STATE_PREFIX,
+  openLoginPopup,
+  postCallbackUrl,
+  waitForCallbackUrl,
+} from './login-window'
+import { createCodeChallenge, createCodeVerifier, createRandomString } from './pkce'
+import {
+  createRuntime,
+  FronteggConfigurationError,
+  type Runtime,
+  type RuntimeOptions,
+} from './runtime'
+import {
+  createSessionSnapshot,
+  type FronteggSessionSnapshot,
+  parseSessionSnapshot,
+} from './session-snapshot'
+import { SessionSync } from './session-sync'
+import { getStorageNamespace } from './storage-namespace'
+import { calculateTokenExpirationTime, isTokenExpired } from './token-expiration'
+import { TokenRefreshScheduler } from './token-refresh-scheduler'
+import {
+  InMemoryTokenStorage,
+  STORED_SESSION_SCHEMA,
+  type StoredSession,
+  type TokenStorage,
+} from './token-storage'
+import { TypedEventEmitter } from './typed-event-emitter'
 
 const GET_FRONTEGG_TOKEN_RESPONSE_SCHEMA = z.object({
   token_type: z.string(),
@@ -20,196 +72,230 @@ const GET_FRONTEGG_TOKEN_RESPONSE_SCHEMA = z.object({
 
 export type GetFronteggTokenResponse = z.infer<typeof GET_FRONTEGG_TOKEN_RESPONSE_SCHEMA>
 
+const FRONTEGG_TENANT_SCHEMA = z.looseObject({
+  tenantId: z.string(),
+  name: z.string(),
+})
+
 /**
- * Frontegg specific error that contains extra fields for easier debugging.
+ * Response of the `users/v3/me/tenants` endpoint, the active tenant is taken from the access token instead.
  */
-export class FronteggError extends Error {
-  text: string
-  status: number
-  url: string
-  // https://support.frontegg.com/hc/en-us/articles/7027392266525-How-do-I-find-the-frontegg-trace-id
-  fronteggTraceId: string
-  body: unknown
-
-  constructor(options: {
-    text: string
-    status: number
-    url: string
-    fronteggTraceId: string
-    body: unknown
-  }) {
-    super()
-    this.name = 'FronteggError'
-
-    this.text = options.text
-    this.status = options.status
-    this.url = options.url
-    this.fronteggTraceId = options.fronteggTraceId
-    this.body = options.body
-  }
+const FRONTEGG_TENANTS_RESPONSE_SCHEMA = z.looseObject({
+  tenants: z.array(FRONTEGG_TENANT_SCHEMA),
+})
 
-  override toString() {
-    return this.message
-  }
+/**
+ * Tenant (workspace) the user belongs to.
+ */
+export type FronteggTenant = z.infer<typeof FRONTEGG_TENANT_SCHEMA>
 
-  override get message(): string {
-    return JSON.stringify({
-      text: this.text,
-      status: this.status,
-      url: this.url,
-      fronteggTraceId: this.fronteggTraceId,
-      body: this.body,
-    })
-  }
+export interface FronteggOAuthClientConfig extends RuntimeOptions {
+  /**
+   * Base URL of the Frontegg API
+   */
+  baseUrl: string
+  /**
+   * Client id from the Administration page of the Frontegg portal
+   */
+  clientId: string
+  /**
+   * The URL used to redirect the user after the OAuth login.
+   */
+  redirectUri: string
+  /**
+   * The URL used to redirect the user after the OAuth logout.
+   */
+  logoutRedirectUri: string
+  userData?: FronteggUserData
+  refreshToken?: string
+  tokenExpirationTime?: number
+  /**
+   * Storage used to persist the session between page loads. Defaults to in-memory storage.
+   * The session is read from the storage when the client is created and written after every token fetch.
+   */
+  tokenStorage?: TokenStorage
+  /**
+   * Enables synchronization of the session between browser tabs.
+   * Only one tab refreshes the tokens at a time and the others receive the new tokens,
+   * logout in one tab clears the session in all of them.
+   */
+  crossTabSync?: boolean
+  /**
+   * Safety margin in milliseconds, the token is assumed to be expired this long before the actual expiration time.
+   * Defaults to 1 hour.
+   */
+  tokenExpirationSkewMs?: number
+  /**
+   * Starts refreshing the tokens in the background ahead of their expiration right after the client is created.
+   * The scheduler can be also controlled through `tokenRefreshScheduler`.
+   */
+  autoRefresh?: boolean
+  /**
+   * Time in milliseconds after which the code verifier of an unfinished login is considered expired.
+   * Defaults to 30 minutes.
+   */
+  codeVerifierTtlMs?: number
+  /**
+   * Time in milliseconds to wait after storing the login transaction before redirecting to the login page.
+   * Works around Safari not persisting the local storage when it is followed by a redirect. Defaults to 200 ms.
+   */
+  codeVerifierPersistDelayMs?: number
+  /**
+   * Verifies the RS256 signature and the `exp`, `nbf` and `iss` claims of the access token
+   * against the key set published at `${baseUrl}/.well-known/jwks.json` before the user data is trusted.
+   * Restored or constructor-supplied sessions are verified by the first `getUserData` call,
+   * `userData` stays null until then. Sessions failing the verification are cleared.
+   */
+  verifyTokenSignature?: boolean
+  /**
+   * Retry of the Frontegg requests failing with network errors, timeouts, 502, 503, 504 or 429.
+   * Defaults to 2 retries with a jittered exponential backoff, `{ retries: 0 }` disables the retry.
+   */
+  retry?: RetryOptions
+  /**
+   * Time in milliseconds to wait for the response of a Frontegg request. Defaults to 10 seconds.
+   */
+  requestTimeoutMs?: number
+  /**
+   * Falls back to `loginSilently` when the session cannot be fetched from the Frontegg cookie,
+   * e.g. because the browser blocks third-party cookies. The callback page has to call `handleWindowCallback`.
+   */
+  silentLoginFallback?: boolean
+  /**
+   * Default parameters of the login and signup URLs (e.g. `scope` or `uiLocales`),
+   * they can be overridden by the options of `getOAuthLoginUrl` and `getSignupUrl`.
+   */
+  authorizationParams?: FronteggAuthorizationParams
 }
 
 /**
- * Function to generate a random string
- * From https://sentry.io/answers/generate-random-string-characters-in-javascript/
- *
- * @param length the length of the generated string
- * @returns a random string
+ * Options of the login URL.
  */
-const createRandomString = (length = 16) => {
-  let text = ''
-  const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
-  for (let i = 0; i < length; i++) {
-    text += possible.charAt(Math.floor(Math.random() * possible.length))
-  }
-  return text
+export interface FronteggLoginOptions extends FronteggAuthorizationParams {
+  /**
+   * Relative path the user should be returned to after the login, defaults to `/`.
+   */
+  returnTo?: string
 }
 
 /**
- * Function to generate a new code verifier string or retrieve it from the local storage
- * Upon successful login on the hosted login page, we need to be able to reference the same `codeVerifier`
- * when calling `getFronteggUserTokenByCode` so that Frontegg can check that the passed code matches
- * the `codeVerifier` that was originally used to create the `code_challenge`.
- *
- * @returns a code verifier string
+ * Error thrown when the OAuth callback cannot be completed.
+ * The `error` field contains either the OAuth error code returned by Frontegg (e.g. `access_denied`),
+ * or one of the client-side validation errors: `invalid_state`, `invalid_nonce` or `missing_code`.
  */
-const getCodeVerifier = async () => {
-  const localStorageVerifier = localStorage.getItem('LOGIN_VERIFIER_KEY')
+export class FronteggOAuthCallbackError extends Error {
+  error: string
+  errorDescription: string | null
 
-  if (localStorageVerifier) {
-    return localStorageVerifier
-  }
+  constructor(options: { error: string; errorDescription?: string | null }) {
+    super(options.errorDescription ?? options.error)
+    this.name = 'FronteggOAuthCallbackError'
 
-  const verifier = createRandomString()
-  localStorage.setItem('LOGIN_VERIFIER_KEY', verifier)
+    this.error = options.error
+    this.errorDescription = options.errorDescription ?? null
+  }
+}
 
-  // Safari has a bug, where the localStorage value is not set if it is followed by redirect right after it.
-  // To workaround this, we wait for a short period of time before returning the verifier.
-  // See https://lokalise.atlassian.net/browse/AP-4043 for more details.
-  await new Promise<void>((resolve) => {
-    setTimeout(() => {
-      resolve()
-    }, 200)
-  })
+/**
+ * Function to accept only relative paths as the return-to path to prevent open redirects.
+ */
+const isRelativePath = (path: string) => path.startsWith('/') && !path.startsWith('//')
 
-  return verifier
+/**
+ * Function to get the nonce claim from the ID token, returns undefined if the ID token cannot be decoded.
+ */
+const getIdTokenNonce = (idToken: string): unknown => {
+  try {
+    return decodeJwt(idToken).nonce
+  } catch {
+    return undefined
+  }
 }
 
 /**
- * Fetch function that throws an error if the response is not ok.
+ * Default safety margin, the token is assumed to be expired 1 hour before the actual expiration time.
  */
-const fetchWithAssert = async (url: string, options: RequestInit) => {
-  const response = await fetch(url, options)
-
-  if (!response.ok) {
-    const defaultMessage = 'Error while fetching Frontegg endpoint.'
-    const text = (await response.text().catch(() => defaultMessage)) || defaultMessage
-    const body: unknown = (await response.json().catch(() => defaultMessage)) || defaultMessage
+const DEFAULT_TOKEN_EXPIRATION_SKEW_MS = 60 * 60 * 1000
 
-    throw new FronteggError({
-      text,
-      url,
-      fronteggTraceId: response.headers.get('frontegg-trace-id') ?? 'undefined',
-      status: response.status,
-      body,
-    })
-  }
+/**
+ * Default time after which the code verifier of an unfinished login is considered expired.
+ */
+const DEFAULT_CODE_VERIFIER_TTL_MS = 30 * 60 * 1000
 
-  return response
-}
+/**
+ * Default time to wait after storing the login transaction, see `createLoginUrl` for more details.
+ */
+const DEFAULT_CODE_VERIFIER_PERSIST_DELAY_MS = 200
 
 /**
- * Function to calculate the expiration time of a token based on the number of seconds until it expires.
- *
- * @param expiresInSeconds the number of seconds until the token expires
- * @returns the time in milliseconds since epoch when the token expires
+ * Default time to wait for the user to finish the login in the popup.
  */
-const calculateTokenExpirationTime = (expiresInSeconds: number) => {
-  return Date.now() + expiresInSeconds * 1000
-}
+const DEFAULT_POPUP_LOGIN_TIMEOUT_MS = 5 * 60 * 1000
 
 /**
- * Function to check if a token is expired based on its expiration time.
- *
- * @param tokenExpirationTime time in milliseconds since epoch when the token expires
- * @returns boolean indicating whether the token is expired
+ * Default time to wait for the silent login in the hidden iframe.
  */
-const isTokenExpired = (tokenExpirationTime: number | null) => {
-  if (!tokenExpirationTime) {
-    return true
-  }
-  // As a safety margin, we assume the token is expired 1 hour before the actual expiration time
-  return tokenExpirationTime - 60 * 60 * 1000 < Date.now()
-}
+const DEFAULT_SILENT_LOGIN_TIMEOUT_MS = 10 * 1000
 
 /**
- * Function to decode a JWT token
- * Based on https://stackoverflow.com/a/30106551/10876985 and https://github.com/auth0/jwt-decode
- *
- * @param token the JWT token to decode
- * @returns the decoded JWT token
+ * Events emitted by `FronteggOAuthClient` during the authentication lifecycle.
  */
-const decodeJwt = (token: string) => {
-  // Extract the base64 payload from the token
-  const base64Url = token.split('.')[1]
-  // Replace URL-safe characters with the base64 standard characters
-  let base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/')
-  // Add padding to the base64 string if needed, as base64 strings need to be a multiple of 4 characters
-  switch (base64.length % 4) {
-    case 0:
-      break
-    case 2:
-      base64 += '=='
-      break
-    case 3:
-      base64 += '='
-      break
-    default:
-      throw new Error('base64 string is not of the correct length')
-  }
-  // Decode the base64 string and replace special characters with their hex representation
-  // Only using atob would not work in all cases, as it does not decode all special characters
-  // See https://stackoverflow.com/a/30106551/10876985 for more details
-  const jsonPayload = decodeURIComponent(
-    atob(base64).replace(/(.)/g, (_m, p) => {
-      let code = (p as string).charCodeAt(0).toString(16).toUpperCase()
-      if (code.length < 2) {
-        code = `0${code}`
-      }
-      return `%${code}`
-    }),
-  )
-  // Parse the JSON payload and return it
-  return JSON.parse(jsonPayload)
+export interface FronteggOAuthClientEvents extends Record<string, unknown> {
+  /**
+   * Emitted when the user gets authenticated by the cookie or by the OAuth code.
+   */
+  loggedIn: { accessToken: string; tokenExpirationTime: number }
+  /**
+   * Emitted when the access token is refreshed, including refreshes performed by other tabs.
+   */
+  tokenRefreshed: { accessToken: string; tokenExpirationTime: number }
+  /**
+   * Emitted whenever `userData` changes, with null when the session is cleared.
+   */
+  userDataChanged: FronteggUserData | null
+  /**
+   * Emitted when the session can no longer be refreshed and the user needs to log in again.
+   */
+  sessionExpired: FronteggError
+  /**
+   * Emitted when the session is cleared, including logouts performed in other tabs.
+   */
+  loggedOut: undefined
+  /**
+   * Emitted when the refresh of the access token fails.
+   */
+  refreshFailed: FronteggError
+  /**
+   * Emitted when the user data switches to an impersonated session.
+   */
+  impersonationStarted: FronteggUserData
+  /**
+   * Emitted whenever the authentication state changes, see `subscribe`.
+   */
+  stateChanged: FronteggAuthState
 }
 
-const FRONTEGG_DECODED_TOKEN_SCHEMA = z.object({
-  sub: z.string().describe('JWT subject claim used for the Frontegg user id'),
-  email: z.string(),
-  name: z.string(),
-  profilePictureUrl: z.string().nullable().optional(),
-  tenantId: z.string(),
-  act: z
-    .record(z.string())
-    .optional()
-    .describe('Act object is available only when the current session is being impersonated'),
-})
+/**
+ * Authentication state of the client:
+ * - `loading` - the session is being fetched and there is no user data yet
+ * - `authenticated` - the user is logged in, the state is replaced whenever the tokens are refreshed
+ * - `unauthenticated` - the user needs to log in, Frontegg responded with 401 or the session was cleared
+ * - `error` - the session cannot be fetched because of another error
+ */
+export type FronteggAuthState =
+  | { status: 'loading' }
+  | { status: 'authenticated'; userData: FronteggUserData }
+  | { status: 'unauthenticated' }
+  | { status: 'error'; error: unknown }
 
-export type FronteggDecodedToken = z.infer<typeof FRONTEGG_DECODED_TOKEN_SCHEMA>
+/**
+ * Function to compare the states, so the listeners are notified only about actual changes.
+ */
+const isSameAuthState = (state: FronteggAuthState, otherState: FronteggAuthState) =>
+  state.status === otherState.status &&
+  (state.status !== 'authenticated' ||
+    (otherState.status === 'authenticated' && state.userData === otherState.userData)) &&
+  (state.status !== 'error' || (otherState.status === 'error' && state.error === otherState.error))
 
 /**
  * Class providing a Frontegg OAuth login with AccessToken and UserData.
@@ -228,6 +314,14 @@ export class FronteggOAuthClient {
    * Refresh token used to get a new access token when the current one expires.
    */
   private refreshToken: string | null = null
+  /**
+   * OpenID Connect ID token returned together with the access token.
+   */
+  private idToken: string | null = null
+  /**
+   * Claims of the ID token.
+   */
+  private idTokenClaims: IdTokenClaims | null = null
   /**
    * Time in milliseconds since epoch when the token expires.
    */
@@ -240,6 +334,10 @@ export class FronteggOAuthClient {
    * Client id from the Administration page of the Frontegg portal
    */
   private readonly clientId: string
+  /**
+   * Namespace of the persisted state, see `getStorageNamespace`.
+   */
+  private readonly storageNamespace: string
   /**
    * The URL used to redirect the user after the OAuth login.
    */
@@ -252,29 +350,133 @@ export class FronteggOAuthClient {
    * Cached promises to allow only one request at a time.
    */
   private userDataPromise: Promise<FronteggUserData> | null = null
+  /**
+   * Aborted when the session is cleared, so requests started before cannot bring the session back.
+   */
+  private sessionAbortController = new AbortController()
+  /**
+   * Storage used to persist the session between page loads.
+   */
+  private readonly tokenStorage: TokenStorage
+  /**
+   * Synchronization of the session between browser tabs, available only when enabled in the config.
+   */
+  private readonly sessionSync: SessionSync | null = null
+  /**
+   * Safety margin in milliseconds, the token is assumed to be expired this long before the actual expiration time.
+   */
+  private readonly tokenExpirationSkewMs: number
+  /**
+   * Scheduler refreshing the tokens in the background ahead of their expiration.
+   * It is not running unless enabled by `autoRefresh` config or started manually.
+   */
+  public readonly tokenRefreshScheduler: TokenRefreshScheduler
+  /**
+   * Emitter of the authentication lifecycle events.
+   */
+  private readonly events = new TypedEventEmitter<FronteggOAuthClientEvents>()
+  /**
+   * Current authentication state, replaced on every change so it can be compared by reference.
+   */
+  private state: FronteggAuthState = { status: 'loading' }
+  /**
+   * Time in milliseconds after which the code verifier of an unfinished login is considered expired.
+   */
+  private readonly codeVerifierTtlMs: number
+  /**
+   * Time in milliseconds to wait after storing the login transaction.
+   */
+  private readonly codeVerifierPersistDelayMs: number
+  /**
+   * Verifier of the access token signature, available only when enabled in the config.
+   */
+  private readonly jwksVerifier: JwksVerifier | null = null
+  /**
+   * Last access token which passed the signature verification.
+   */
+  private verifiedAccessToken: string | null = null
+  /**
+   * Retry and timeout options of the Frontegg requests.
+   */
+  private readonly fetchOptions: FetchWithAssertOptions
+  /**
+   * Options of the requests with single-use grants (the OAuth code and the rotated refresh token).
+   * They are never retried, as a retry after Frontegg handled the lost request would replay a spent grant
+   * and end the session with 401.
+   */
+  private readonly singleUseGrantFetchOptions: FetchWithAssertOptions
+  /**
+   * Platform dependencies, either injected by the config or taken from the globals.
+   */
+  private readonly runtime: Runtime
+  /**
+   * Falls back to the silent login in a hidden iframe when the session cannot be fetched from the cookie.
+   */
+  private readonly silentLoginFallback: boolean
+  /**
+   * Default parameters of the login and signup URLs.
+   */
+  private readonly authorizationParams: FronteggAuthorizationParams
 
-  constructor(config: {
-    baseUrl: string
-    clientId: string
-    redirectUri: string
-    logoutRedirectUri: string
-    userData?: FronteggUserData
-    refreshToken?: string
-    tokenExpirationTime?: number
-  }) {
+  constructor(config: FronteggOAuthClientConfig) {
+    this.runtime = createRuntime(config)
     this.baseUrl = config.baseUrl
     this.clientId = config.clientId
+    this.storageNamespace = getStorageNamespace(config)
     this.redirectUri = config.redirectUri
     this.logoutRedirectUri = config.logoutRedirectUri
+    this.tokenStorage = config.tokenStorage ?? new InMemoryTokenStorage()
+    this.silentLoginFallback = config.silentLoginFallback ?? false
+    this.authorizationParams = config.authorizationParams ?? {}
+    this.fetchOptions = {
+      fetch: this.runtime.fetch,
+      retry: config.retry,
+      timeoutMs: config.requestTimeoutMs,
+    }
+    this.singleUseGrantFetchOptions = { ...this.fetchOptions, retry: { retries: 0 } }
+    this.tokenExpirationSkewMs = config.tokenExpirationSkewMs ?? DEFAULT_TOKEN_EXPIRATION_SKEW_MS
+    this.codeVerifierTtlMs = config.codeVerifierTtlMs ?? DEFAULT_CODE_VERIFIER_TTL_MS
+    this.codeVerifierPersistDelayMs =
+      config.codeVerifierPersistDelayMs ?? DEFAULT_CODE_VERIFIER_PERSIST_DELAY_MS
+    this.tokenRefreshScheduler = new TokenRefreshScheduler({
+      getTokenExpirationTime: () => (this.refreshToken ? this.tokenExpirationTime : null),
+      refresh: () => this.getUserData({ forceRefresh: true }),
+      refreshSkewMs: this.tokenExpirationSkewMs,
+      clock: this.runtime.clock,
+    })
+    if (config.verifyTokenSignature) {
+      this.jwksVerifier = new JwksVerifier({
+        baseUrl: this.baseUrl,
+        fetch: this.runtime.fetch,
+        clock: this.runtime.clock,
+        crypto: this.runtime.crypto,
+      })
+    }
+
+    this.restoreSession()
+
+    if (config.crossTabSync) {
+      this.sessionSync = new SessionSync({
+        channelName: `frontegg-oauth-client:${this.storageNamespace}`,
+        onSessionUpdated: (session) => this.handleRemoteSessionUpdate(session),
+        onLoggedOut: () => this.clearLocalSession(),
+        runtime: this.runtime,
+      })
+    }
 
     if (config.userData) {
-      this.userData = config.userData
+      // Unverified user data is not exposed, it is decoded again from the access token once verified
+      this.userData = this.jwksVerifier ? null : config.userData
       this.accessToken = config.userData.accessToken
     }
 
     if (config.refreshToken) this.refreshToken = config.refreshToken
 
     if (config.tokenExpirationTime) this.tokenExpirationTime = config.tokenExpirationTime
+
+    if (this.userData) this.state = { status: 'authenticated', userData: this.userData }
+
+    if (config.autoRefresh) this.tokenRefreshScheduler.start()
   }
 
   /**
@@ -285,29 +487,152 @@ export class FronteggOAuthClient {
    * If there is a request is in progress, it returns the ongoing promise.
    */
   public async getUserData({ forceRefresh = false } = {}): Promise<FronteggUserData> {
-    if (this.userData && !isTokenExpired(this.tokenExpirationTime) && !forceRefresh) {
+    if (
+      this.userData &&
+      !isTokenExpired(this.tokenExpirationTime, this.tokenExpirationSkewMs, this.runtime.clock) &&
+      !forceRefresh &&
+      (!this.jwksVerifier || this.verifiedAccessToken === this.userData.accessToken)
+    ) {
       return this.userData
     }
 
     if (!this.userDataPromise) {
-      this.userDataPromise = this.getAccessToken({ forceRefresh })
-        .then((accessToken) => {
-          return this.decodeAccessToken(accessToken)
+      const { signal } = this.sessionAbortController
+      if (this.state.status !== 'authenticated') this.setState({ status: 'loading' })
+
+      const userDataPromise = this.getAccessToken({ forceRefresh })
+        .then(async (accessToken) => {
+          await this.verifyAccessToken(accessToken)
+          return decodeAccessToken(accessToken)
         })
         .then((userData) => {
-          this.userData = userData
-          this.userDataPromise = null
-          return this.userData
+          // The session might have been cleared while the user data was being fetched
+          signal.throwIfAborted()
+          this.setUserData(userData)
+          return userData
         })
         .catch((error: unknown) => {
-          this.userDataPromise = null
+          if (!signal.aborted) this.setFailedState(error)
           throw error
         })
+        .finally(() => {
+          if (this.userDataPromise === userDataPromise) this.userDataPromise = null
+        })
+      this.userDataPromise = userDataPromise
     }
 
     return this.userDataPromise
   }
 
+  /**
+   * Returns the tenants the user belongs to, e.g. to build a workspace picker.
+   */
+  public async listTenants(): Promise<FronteggTenant[]> {
+    const { accessToken } = await this.getUserData()
+    const url = `${this.baseUrl}/frontegg/identity/resources/users/v3/me/tenants`
+    const response = await fetchWithAssert(
+      url,
+      {
+        method: 'GET',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      },
+      this.fetchOptions,
+    )
+
+    const json: unknown = await response.json()
+    const result = FRONTEGG_TENANTS_RESPONSE_SCHEMA.safeParse(json)
+    if (!result.success) {
+      throw new FronteggError({
+        kind: 'invalidResponse',
+        text: 'Error while parsing Frontegg response.',
+        status: 500,
+        url,
+        fronteggTraceId: response.headers.get('frontegg-trace-id') ?? 'undefined',
+        body: { error: result.error },
+      })
+    }
+    return result.data.tenants
+  }
+
+  /**
+   * Switches the user to another of their tenants without a new login.
+   * The tokens are refreshed afterwards, so the user data reflects the new tenant.
+   *
+   * @returns the user data of the new tenant
+   * @throws Error if the session is being impersonated, as the impersonated user cannot be switched
+   */
+  public async switchTenant(tenantId: string): Promise<FronteggUserData> {
+    const { accessToken, isImpersonated } = await this.getUserData()
+    if (isImpersonated) {
+      throw new Error('Tenant cannot be switched while the session is being impersonated.')
+    }
+
+    await fetchWithAssert(
+      `${this.baseUrl}/frontegg/identity/resources/users/v1/tenant`,
+      {
+        method: 'PUT',
+        headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId }),
+      },
+      this.fetchOptions,
+    )
+
+    return await this.getUserData({ forceRefresh: true })
+  }
+
+  /**
+   * Ends the impersonated session and returns to the operator's own session.
+   * The refresh token of the impersonated session is revoked, the session is cleared
+   * and the session is fetched again from the Frontegg cookie.
+   * If the cookie does not contain the operator's session, the Frontegg session has to be ended
+   * through the returned logout URL, which identifies the impersonated session by its ID token.
+   *
+   * @param options.redirect navigates to the Frontegg logout page when the operator's session is not available
+   * @returns the user data of the operator, or the URL of the Frontegg logout page when the operator needs to log in
+   * @throws Error if the session is not being impersonated
+   * @throws FronteggError if the session cannot be fetched from the cookie for other reasons than a missing session
+   */
+  public async endImpersonation({
+    redirect = false,
+  }: {
+    redirect?: boolean
+  } = {}): Promise<
+    { userData: FronteggUserData; logoutUrl: null } | { userData: null; logoutUrl: string }
+  > {
+    const { isImpersonated } = await this.getUserData()
+    if (!isImpersonated) {
+      throw new Error('Session is not being impersonated.')
+    }
+
+    // The logout URL is built before the session is cleared, as it contains the impersonated ID token
+    const logoutUrl = this.getOAuthLogoutUrl()
+    await this.endSession()
+
+    const userData = await this.getUserData().catch((error: unknown) => {
+      if (error instanceof FronteggError && error.kind === 'unauthenticated') {
+        return null
+      }
+      throw error
+    })
+    if (userData && !userData.isImpersonated) {
+      return { userData, logoutUrl: null }
+    }
+
+    // The cookie still belongs to the impersonated session, so it cannot be reused
+    if (userData) await this.endSession()
+    if (redirect) window.location.assign(logoutUrl)
+
+    return { userData: null, logoutUrl }
+  }
+
+  /**
+   * Returns a fetch function authenticating requests to the allowed origins with the user access token.
+   * Requests rejected with 401 are retried once with a refreshed access token.
+   */
+  public createAuthenticatedFetch(options?: AuthenticatedFetchOptions) {
+    return createAuthenticatedFetch(this, { fetch: this.runtime.fetch, ...options })
+  }
+
   /**
    * Function to get the Frontegg user access token.
    * If the access token is already cached and not expired, it returns the cached token.
@@ -318,40 +643,91 @@ export class FronteggOAuthClient {
    */
   private async getAccessToken({ forceRefresh = false } = {}): Promise<string> {
     if (!this.accessToken) {
-      return await this.fetchAccessTokenByCookie()
+      return await this.fetchAccessTokenByCookie().catch((error: unknown) =>
+        this.fallbackToSilentLogin(error),
+      )
     }
 
-    if (this.refreshToken && (forceRefresh || isTokenExpired(this.tokenExpirationTime))) {
-      return await this.fetchAccessTokenByOAuthRefreshToken(this.refreshToken)
+    if (
+      this.refreshToken &&
+      (forceRefresh ||
+        isTokenExpired(this.tokenExpirationTime, this.tokenExpirationSkewMs, this.runtime.clock))
+    ) {
+      return await this.refreshAccessToken(this.refreshToken)
     }
 
     return this.accessToken
   }
 
+  /**
+   * Function to retry the failed cookie login in a hidden iframe when the fallback is enabled.
+   * The original error is thrown when the silent login fails, so the user is sent to the login page as usual.
+   */
+  private async fallbackToSilentLogin(error: unknown) {
+    if (
+      !this.silentLoginFallback ||
+      !(error instanceof FronteggError) ||
+      error.kind !== 'unauthenticated'
+    ) {
+      throw error
+    }
+
+    try {
+      // The state is left to getUserData, so the failed fallback does not pass through the error state
+      const { accessToken } = await this.loginInHiddenIframe({ updatesFailedState: false })
+      return accessToken
+    } catch {
+      throw error
+    }
+  }
+
+  /**
+   * Function to refresh the access token.
+   * With cross-tab synchronization enabled, only one tab performs the refresh and the others reuse its result,
+   * as the refresh token is rotated and can be used only once.
+   *
+   * @returns a refreshed Frontegg user access token
+   */
+  private async refreshAccessToken(refreshToken: string): Promise<string> {
+    if (!this.sessionSync) {
+      return await this.fetchAccessTokenByOAuthRefreshToken(refreshToken)
+    }
+
+    return await this.sessionSync.runExclusiveRefresh(() =>
+      // The refresh token might have been rotated by another tab in the meantime
+      this.fetchAccessTokenByOAuthRefreshToken(this.refreshToken ?? refreshToken),
+    )
+  }
+
   /**
    * Function to get the Frontegg user access token from the cookie set by the Frontegg hosted login page.
    *
    * @returns a Frontegg user access token if the user is authenticated, otherwise throws an error.
    */
   private async fetchAccessTokenByCookie() {
-    const response = await fetchWithAssert(`${this.baseUrl}/frontegg/oauth/authorize/silent`, {
-      method: 'POST',
-      credentials: 'include',
-      // CORS is required as the Frontegg URL is on a different subdomain from the application
-      mode: 'cors',
-      headers: { 'Content-Type': 'application/json' },
-    })
+    const { signal } = this.sessionAbortController
+    const response = await fetchWithAssert(
+      `${this.baseUrl}/frontegg/oauth/authorize/silent`,
+      {
+        method: 'POST',
+        signal,
+        credentials: 'include',
+        // CORS is required as the Frontegg URL is on a different subdomain from the application
+        mode: 'cors',
+        headers: { 'Content-Type': 'application/json' },
+      },
+      this.fetchOptions,
+    )
 
     const json: unknown = await response.json()
+    signal.throwIfAborted()
     try {
       const data = GET_FRONTEGG_TOKEN_RESPONSE_SCHEMA.parse(json)
 
-      this.accessToken = data.access_token
-      this.refreshToken = data.refresh_token
-      this.tokenExpirationTime = calculateTokenExpirationTime(data.expires_in)
-      return this.accessToken
+      return this.storeTokens(data, 'loggedIn')
     } catch (error: unknown) {
       throw new FronteggError({
+        kind: 'invalidResponse',
         text: 'Error while parsing Frontegg response.',
         status: 500,
         url: `${this.baseUrl}/frontegg/oauth/authorize/silent`,
@@ -366,27 +742,383 @@ export class FronteggOAuthClient {
 
   /**
    * Function to exchange the OAuth code for a Frontegg user access token
+   * Unlike `handleRedirectCallback`, the state and the nonce are not validated.
    *
+   * @param state state of the callback, identifying the login attempt and its code verifier.
+   *   Defaults to the most recently started login.
    * @returns a Frontegg user access token if the user is authenticated, otherwise throw an 401 FronteggError.
    */
-  public async fetchAccessTokenByOAuthCode(oauthCode: string) {
-    const response = await fetchWithAssert(`${this.baseUrl}/frontegg/oauth/token`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        code: oauthCode,
-        redirect_uri: this.redirectUri,
-        code_verifier: await getCodeVerifier(),
-        grant_type: 'authorization_code',
-      }),
+  public async fetchAccessTokenByOAuthCode(oauthCode: string, state?: string) {
+    // Logins started by previous versions of the client have only the code verifier, without the state
+    const legacyCodeVerifier = consumeLegacyCodeVerifier(this.runtime)
+    const loginState = state ?? getLatestLoginState(this.storageNamespace, this.runtime)
+    const transaction = loginState ? this.consumeLoginTransaction(loginState) : null
+    const data = await this.exchangeOAuthCode(
+      oauthCode,
+      transaction?.codeVerifier ?? legacyCodeVerifier,
+    )
+    return this.storeTokens(data, 'loggedIn')
+  }
+
+  /**
+   * Function to get and remove the transaction of the login attempt identified by the state.
+   */
+  private consumeLoginTransaction(state: string) {
+    return consumeLoginTransaction({
+      storageNamespace: this.storageNamespace,
+      state,
+      ttlMs: this.codeVerifierTtlMs,
+      runtime: this.runtime,
     })
+  }
+
+  /**
+   * Function to exchange the OAuth code for Frontegg tokens without storing them.
+   *
+   * @param codeVerifier code verifier of the login attempt, Frontegg rejects the code when it is missing
+   */
+  private async exchangeOAuthCode(oauthCode: string, codeVerifier: string | null) {
+    const { signal } = this.sessionAbortController
+    const response = await fetchWithAssert(
+      `${this.baseUrl}/frontegg/oauth/token`,
+      {
+        method: 'POST',
+        signal,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: oauthCode,
+          redirect_uri: this.redirectUri,
+          code_verifier: codeVerifier ?? undefined,
+          grant_type: 'authorization_code',
+        }),
+      },
+      this.singleUseGrantFetchOptions,
+    )
 
     const json: unknown = await response.json()
-    const data = GET_FRONTEGG_TOKEN_RESPONSE_SCHEMA.parse(json)
-    this.accessToken = data.access_token
-    this.refreshToken = data.refresh_token
-    this.tokenExpirationTime = calculateTokenExpirationTime(data.expires_in)
-    return this.accessToken
+    signal.throwIfAborted()
+    return GET_FRONTEGG_TOKEN_RESPONSE_SCHEMA.parse(json)
+  }
+
+  /**
+   * Function to complete the OAuth login on the callback page.
+   * Validates the `state` and the `nonce` generated by `getOAuthLoginUrl`, exchanges the OAuth code
+   * for the user access token and clears the one-time login data.
+   *
+   * @param url the callback URL, defaults to the current page URL
+   * @returns the user data and the path the user should be returned to
+   * @throws FronteggOAuthCallbackError if Frontegg returned an error or the callback is not valid
+   */
+  public async handleRedirectCallback(url: string | URL = window.location.href) {
+    return await this.completeLogin(url, { updatesFailedState: true })
+  }
+
+  /**
+   * Function to complete the login from the callback URL, see `handleRedirectCallback`.
+   *
+   * @param options.updatesFailedState updates the state when the login fails, disabled when the caller owns the state
+   */
+  private async completeLogin(
+    url: string | URL,
+    { updatesFailedState }: { updatesFailedState: boolean },
+  ) {
+    const searchParams = new URL(url).searchParams
+    const code = searchParams.get('code')
+    const state = searchParams.get('state')
+    const error = searchParams.get('error')
+    // The transaction is removed right away, as it can be used only once
+    const transaction = state ? this.consumeLoginTransaction(state) : null
+    const { signal } = this.sessionAbortController
+
+    try {
+      if (error) {
+        throw new FronteggOAuthCallbackError({
+          error,
+          errorDescription: searchParams.get('error_description'),
+        })
+      }
+
+      if (!transaction) {
+        throw new FronteggOAuthCallbackError({
+          error: 'invalid_state',
+          errorDescription: 'OAuth state does not match any pending login.',
+        })
+      }
+
+      if (!code) {
+        throw new FronteggOAuthCallbackError({
+          error: 'missing_code',
+          errorDescription: 'OAuth code is missing in the callback URL.',
+        })
+      }
+
+      const data = await this.exchangeOAuthCode(code, transaction.codeVerifier)
+      if (getIdTokenNonce(data.id_token) !== transaction.nonce) {
+        throw new FronteggOAuthCallbackError({
+          error: 'invalid_nonce',
+          errorDescription: 'ID token nonce does not match the nonce of the login.',
+        })
+      }
+
+      const accessToken = this.storeTokens(data, 'loggedIn')
+      await this.verifyAccessToken(accessToken)
+      const userData = decodeAccessToken(accessToken)
+      this.setUserData(userData)
+
+      return { userData, returnTo: transaction.returnTo }
+    } catch (callbackError: unknown) {
+      if (updatesFailedState && !signal.aborted) this.setFailedState(callbackError)
+      throw callbackError
+    }
+  }
+
+  /**
+   * Function to log the user in without leaving the page, e.g. when the session expires while the user is editing.
+   * Opens the Frontegg login page in a popup and completes the login once the callback page
+   * forwards the callback by `handleWindowCallback`.
+   * The popup is opened synchronously, so the method has to be called from a user action (e.g. a click).
+   *
+   * @param options.timeoutMs time to wait for the user to finish the login, defaults to 5 minutes
+   * @param options authorization parameters of the login, see `getOAuthLoginUrl`
+   * @returns the user data of the logged-in user
+   * @throws FronteggLoginWindowError if the popup is blocked, closed by the user or the login times out
+   * @throws FronteggOAuthCallbackError if Frontegg returned an error or the callback is not valid
+   */
+  public async loginWithPopup({
+    timeoutMs = DEFAULT_POPUP_LOGIN_TIMEOUT_MS,
+    ...params
+  }: FronteggAuthorizationParams & { timeoutMs?: number } = {}): Promise<FronteggUserData> {
+    const popup = openLoginPopup()
+
+    try {
+      const loginUrl = await this.createLoginUrl({ isWindowLogin: true, params })
+      const callbackUrlPromise = waitForCallbackUrl({
+        getSource: () => popup,
+        origin: new URL(this.redirectUri).origin,
+        timeoutMs,
+        isClosed: () => popup.closed,
+      })
+      popup.location.href = loginUrl.toString()
+
+      const { userData } = await this.handleRedirectCallback(await callbackUrlPromise)
+      return userData
+    } finally {
+      popup.close()
+    }
+  }
+
+  /**
+   * Function to renew the session without any user interaction by loading the Frontegg login page
+   * with `prompt=none` in a hidden iframe. It works as long as the user is logged in on Frontegg,
+   * even when the browser blocks the third-party cookie used by `getUserData`.
+   *
+   * @param options.timeoutMs time to wait for the callback, defaults to 10 seconds
+   * @returns the user data of the logged-in user
+   * @throws FronteggOAuthCallbackError with `login_required` error if the user needs to log in
+   * @throws FronteggLoginWindowError if the callback is not received in time
+   */
+  public async loginSilently({
+    timeoutMs = DEFAULT_SILENT_LOGIN_TIMEOUT_MS,
+  }: {
+    timeoutMs?: number
+  } = {}): Promise<FronteggUserData> {
+    return await this.loginInHiddenIframe({ timeoutMs, updatesFailedState: true })
+  }
+
+  /**
+   * Function to perform the silent login, see `loginSilently`.
+   *
+   * @param options.updatesFailedState updates the state when the login fails, disabled when the caller owns the state
+   */
+  private async loginInHiddenIframe({
+    timeoutMs = DEFAULT_SILENT_LOGIN_TIMEOUT_MS,
+    updatesFailedState,
+  }: {
+    timeoutMs?: number
+    updatesFailedState: boolean
+  }) {
+    const loginUrl = await this.createLoginUrl({ isWindowLogin: true, params: { prompt: 'none' } })
+    const iframe = createLoginIframe()
+
+    try {
+      const callbackUrlPromise = waitForCallbackUrl({
+        getSource: () => iframe.contentWindow,
+        origin: new URL(this.redirectUri).origin,
+        timeoutMs,
+      })
+      iframe.src = loginUrl.toString()
+
+      const { userData } = await this.completeLogin(await callbackUrlPromise, {
+        updatesFailedState,
+      })
+      return userData
+    } finally {
+      iframe.remove()
+    }
+  }
+
+  /**
+   * Function to make sure the user authenticated recently before a sensitive action (e.g. deleting a project).
+   * The authentication time is taken from the `auth_time` claim of the ID token, or of the access token.
+   * When it is older than `maxAgeSeconds` or unknown, the user is asked to log in again with `prompt=login`
+   * and `max_age`, either in a popup or by redirecting the page.
+   * The check is based on the current session, so the popup is opened synchronously within the user action.
+   *
+   * @param options.maxAgeSeconds maximum time since the last authentication
+   * @param options.mode `popup` to log in without leaving the page, defaults to `redirect`
+   * @param options.returnTo relative path the user is returned to after the redirect login, defaults to `/`
+   * @returns the user data once the user authenticated recently, or null when the page is being redirected
+   * @throws FronteggLoginWindowError if the popup login cannot be completed
+   * @throws Error if Frontegg did not authenticate the user again
+   */
+  public async requireRecentAuthentication({
+    maxAgeSeconds,
+    mode = 'redirect',
+    returnTo,
+  }: {
+    maxAgeSeconds: number
+    mode?: 'redirect' | 'popup'
+    returnTo?: string
+  }): Promise<FronteggUserData | null> {
+    if (this.isAuthenticatedWithin(maxAgeSeconds)) {
+      return await this.getUserData()
+    }
+
+    const params = { prompt: 'login', maxAge: maxAgeSeconds } as const
+    if (mode === 'redirect') {
+      window.location.assign(await this.getOAuthLoginUrl({ returnTo, ...params }))
+      return null
+    }
+
+    const userData = await this.loginWithPopup(params)
+    if (!this.isAuthenticatedWithin(maxAgeSeconds)) {
+      throw new Error('User was not authenticated again by Frontegg.')
+    }
+    return userData
+  }
+
+  /**
+   * Function to check whether the user of the current session authenticated within the given time.
+   */
+  private isAuthenticatedWithin(maxAgeSeconds: number) {
+    const authenticatedAt = this.idTokenClaims?.auth_time
+      ? this.idTokenClaims.auth_time * 1000
+      : this.userData?.authenticatedAt
+    if (!authenticatedAt) {
+      return false
+    }
+    return this.runtime.clock.now() - authenticatedAt <= maxAgeSeconds * 1000
+  }
+
+  /**
+   * Function to be called on the callback page before `handleRedirectCallback`.
+   * When the page is loaded in the popup of `loginWithPopup` or in the iframe of `loginSilently`,
+   * it forwards the callback to the window which started the login, where the login is completed.
+   *
+   * @param url the callback URL, defaults to the current page URL
+   * @returns true if the callback was forwarded and the page should do nothing else
+   */
+  public handleWindowCallback(url: string | URL = window.location.href) {
+    return postCallbackUrl(url.toString())
+  }
+
+  /**
+   * Function to start the device authorization grant (RFC 8628) for clients which cannot redirect the user
+   * to the login page, e.g. CLI tools. The user code and the verification URI of the returned authorization
+   * should be displayed to the user, who approves the login on another device.
+   * The login is completed by `waitForDeviceAuthorization`.
+   *
+   * @param options.scope space separated scopes, defaults to the scope of the client authorization params
+   * @returns the pending device authorization
+   */
+  public async requestDeviceAuthorization({
+    scope = this.authorizationParams.scope ?? DEFAULT_SCOPE,
+  }: {
+    scope?: string
+  } = {}): Promise<FronteggDeviceAuthorization> {
+    const response = await fetchWithAssert(
+      `${this.baseUrl}/frontegg/oauth/device/authorize`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ client_id: this.clientId, scope }),
+      },
+      this.fetchOptions,
+    )
+
+    const json: unknown = await response.json()
+    try {
+      return createDeviceAuthorization(json, this.runtime.clock)
+    } catch (error: unknown) {
+      throw new FronteggError({
+        kind: 'invalidResponse',
+        text: 'Error while parsing Frontegg response.',
+        status: 500,
+        url: `${this.baseUrl}/frontegg/oauth/device/authorize`,
+        fronteggTraceId: response.headers.get('frontegg-trace-id') ?? 'undefined',
+        body: {
+          responseKeys: typeof json === 'object' && json !== null ? Object.keys(json) : undefined,
+          error,
+        },
+      })
+    }
+  }
+
+  /**
+   * Function to poll Frontegg until the user approves the device authorization started by `requestDeviceAuthorization`.
+   * The polling honors the interval of the authorization, which is increased when Frontegg asks to slow down.
+   *
+   * @param authorization the pending device authorization
+   * @param options.signal stops the polling, e.g. when the user cancels the login
+   * @returns the user data of the logged-in user
+   * @throws FronteggDeviceAuthorizationError if the device code expired or the user denied the authorization
+   */
+  public async waitForDeviceAuthorization(
+    authorization: FronteggDeviceAuthorization,
+    { signal }: { signal?: AbortSignal } = {},
+  ): Promise<FronteggUserData> {
+    const sessionSignal = this.sessionAbortController.signal
+    let intervalSeconds = authorization.intervalSeconds
+
+    while (true) {
+      await wait(intervalSeconds * 1000, signal)
+      if (this.runtime.clock.now() >= authorization.expiresAt) {
+        throw new FronteggDeviceAuthorizationError('expiredToken', 'Device code has expired.')
+      }
+
+      let response: Response
+      try {
+        response = await fetchWithAssert(
+          `${this.baseUrl}/frontegg/oauth/token`,
+          {
+            method: 'POST',
+            signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              client_id: this.clientId,
+              device_code: authorization.deviceCode,
+              grant_type: DEVICE_CODE_GRANT_TYPE,
+            }),
+          },
+          this.fetchOptions,
+        )
+      } catch (error: unknown) {
+        intervalSeconds = handleDeviceTokenError(error, intervalSeconds)
+        continue
+      }
+
+      const json: unknown = await response.json()
+      // The session was cleared while polling, the tokens must not bring it back
+      sessionSignal.throwIfAborted()
+      const accessToken = this.storeTokens(
+        GET_FRONTEGG_TOKEN_RESPONSE_SCHEMA.parse(json),
+        'loggedIn',
+      )
+      await this.verifyAccessToken(accessToken)
+      const userData = decodeAccessToken(accessToken)
+      this.setUserData(userData)
+      return userData
+    }
   }
 
   /**
@@ -395,47 +1127,500 @@ export class FronteggOAuthClient {
    * @returns a Frontegg user access token if the user is authenticated, otherwise throw an 401 FronteggError.
    */
   public async fetchAccessTokenByOAuthRefreshToken(refreshToken: string) {
-    const response = await fetchWithAssert(`${this.baseUrl}/frontegg/oauth/token`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        refresh_token: refreshToken,
-        grant_type: 'refresh_token',
-      }),
+    const { signal } = this.sessionAbortController
+    const response = await fetchWithAssert(
+      `${this.baseUrl}/frontegg/oauth/token`,
+      {
+        method: 'POST',
+        signal,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          refresh_token: refreshToken,
+          grant_type: 'refresh_token',
+        }),
+      },
+      this.singleUseGrantFetchOptions,
+    ).catch((error: unknown) => {
+      if (error instanceof FronteggError) {
+        this.events.emit('refreshFailed', error)
+        // Frontegg returns 401 when the refresh token is no longer valid
+        if (error.kind === 'unauthenticated') this.events.emit('sessionExpired', error)
+      }
+      throw error
     })
 
     const json: unknown = await response.json()
+    signal.throwIfAborted()
     const data = GET_FRONTEGG_TOKEN_RESPONSE_SCHEMA.parse(json)
-    this.accessToken = data.access_token
-    this.refreshToken = data.refresh_token
-    this.tokenExpirationTime = calculateTokenExpirationTime(data.expires_in)
-    return this.accessToken
+    return this.storeTokens(data, 'tokenRefreshed')
+  }
+
+  /**
+   * Function to keep the tokens from the Frontegg response, persist them in the token storage
+   * and notify the listeners about the new tokens.
+   *
+   * @returns the access token from the response
+   */
+  private storeTokens(data: GetFronteggTokenResponse, event: 'loggedIn' | 'tokenRefreshed') {
+    this.validateIdToken(data.id_token)
+
+    const session: StoredSession = {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      tokenExpirationTime: calculateTokenExpirationTime(data.expires_in, this.runtime.clock),
+      idToken: data.id_token,
+    }
+
+    this.applySession(session)
+    this.sessionSync?.notifySessionUpdated(session)
+    this.events.emit(event, {
+      accessToken: session.accessToken,
+      tokenExpirationTime: session.tokenExpirationTime,
+    })
+
+    return session.accessToken
+  }
+
+  /**
+   * Function to keep the session in memory and persist it in the token storage.
+   */
+  private applySession(session: StoredSession) {
+    this.idTokenClaims = session.idToken ? parseIdTokenClaims(session.idToken) : null
+    this.idToken = session.idToken ?? null
+    this.accessToken = session.accessToken
+    this.refreshToken = session.refreshToken
+    this.tokenExpirationTime = session.tokenExpirationTime
+
+    this.tokenStorage.set(this.sessionStorageKey, JSON.stringify(session))
+    this.tokenRefreshScheduler.schedule()
+  }
+
+  /**
+   * Function to validate the issuer, audience and lifetime of the ID token returned by Frontegg.
+   *
+   * @throws FronteggError if the ID token is not valid
+   */
+  private validateIdToken(idToken: string) {
+    try {
+      decodeIdToken(idToken, {
+        issuer: this.baseUrl,
+        audience: this.clientId,
+        clock: this.runtime.clock,
+      })
+    } catch (error: unknown) {
+      throw new FronteggError({
+        kind: 'invalidResponse',
+        text: 'Invalid Frontegg ID token.',
+        status: 500,
+        url: `${this.baseUrl}/frontegg/oauth/token`,
+        fronteggTraceId: 'undefined',
+        body: { reason: error instanceof Error ? error.message : String(error) },
+      })
+    }
+  }
+
+  /**
+   * Function to verify the access token signature when the verification is enabled.
+   * The session is cleared when the verification fails, as the token cannot be trusted.
+   *
+   * @throws FronteggTokenVerificationError if the access token cannot be verified
+   */
+  private async verifyAccessToken(accessToken: string) {
+    if (!this.jwksVerifier || this.verifiedAccessToken === accessToken) {
+      return
+    }
+
+    try {
+      await this.jwksVerifier.verify(accessToken)
+      this.verifiedAccessToken = accessToken
+    } catch (error: unknown) {
+      if (this.accessToken === accessToken) this.clearLocalSession()
+      throw error
+    }
+  }
+
+  /**
+   * Returns the OpenID Connect claims of the current ID token, or null if the user is not authenticated.
+   */
+  public getIdTokenClaims() {
+    return this.idTokenClaims
+  }
+
+  /**
+   * Function to apply the session refreshed or fetched by another tab.
+   * With the signature verification enabled, the session is applied only once its access token is verified.
+   */
+  private handleRemoteSessionUpdate(session: StoredSession) {
+    if (!this.jwksVerifier) {
+      this.applyRemoteSession(session)
+      return
+    }
+
+    this.jwksVerifier.verify(session.accessToken).then(
+      () => {
+        this.verifiedAccessToken = session.accessToken
+        this.applyRemoteSession(session)
+      },
+      () => {
+        // Ignore sessions which cannot be verified, the current tab will fetch its own session when needed
+      },
+    )
+  }
+
+  private applyRemoteSession(session: StoredSession) {
+    try {
+      this.setUserData(decodeAccessToken(session.accessToken))
+      this.applySession(session)
+      this.events.emit('tokenRefreshed', {
+        accessToken: session.accessToken,
+        tokenExpirationTime: session.tokenExpirationTime,
+      })
+    } catch {
+      // Ignore sessions which cannot be decoded, the current tab will fetch its own session when needed
+    }
+  }
+
+  /**
+   * Logs the user out: revokes the refresh token on the server, clears the session in memory, in the token storage
+   * and in other tabs, removes the data of an unfinished login and cancels pending user data requests.
+   *
+   * @param options.redirect navigates to the Frontegg logout page, which ends the session on Frontegg as well
+   * @returns the URL of the Frontegg logout page
+   */
+  public async logout({ redirect = false }: { redirect?: boolean } = {}) {
+    // The logout URL is built before the session is cleared, as it contains the ID token
+    const logoutUrl = this.getOAuthLogoutUrl()
+    const sessionEnded = this.endSession()
+    this.removeLoginTransactions()
+    await sessionEnded
+
+    if (redirect) window.location.assign(logoutUrl)
+
+    return logoutUrl
+  }
+
+  /**
+   * Function to remove the data of unfinished logins.
+   * Without the login storage (e.g. in a service worker), no login could have been started, so there is nothing to remove.
+   */
+  private removeLoginTransactions() {
+    try {
+      removeLoginTransactions(this.storageNamespace, this.runtime)
+    } catch (error: unknown) {
+      if (!(error instanceof FronteggConfigurationError)) throw error
+    }
+  }
+
+  /**
+   * Function to clear the session and to revoke its refresh token on the server.
+   */
+  private async endSession() {
+    const refreshToken = this.refreshToken
+    this.clearSession()
+
+    if (refreshToken) {
+      await fetchWithAssert(
+        `${this.baseUrl}/frontegg/oauth/logout/token`,
+        {
+          method: 'POST',
+          credentials: 'include',
+          mode: 'cors',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refresh_token: refreshToken }),
+        },
+        this.fetchOptions,
+      ).catch(() => {
+        // The session is already cleared locally, the refresh token expires on its own if it cannot be revoked
+      })
+    }
+  }
+
+  /**
+   * Stops the background token refresh and the synchronization with other tabs,
+   * e.g. when the client is no longer used. The session itself is kept.
+   */
+  public dispose() {
+    this.tokenRefreshScheduler.stop()
+    this.sessionSync?.close()
+  }
+
+  /**
+   * Clears the cached user data and tokens, including the persisted session.
+   * With cross-tab synchronization enabled, the session is cleared in all other tabs as well.
+   */
+  public clearSession() {
+    this.clearLocalSession()
+    this.sessionSync?.notifyLoggedOut()
+  }
+
+  /**
+   * Function to clear the session only in the current tab.
+   */
+  private clearLocalSession() {
+    this.sessionAbortController.abort(new DOMException('Session was cleared.', 'AbortError'))
+    this.sessionAbortController = new AbortController()
+    this.userDataPromise = null
+
+    this.setUserData(null)
+    this.idToken = null
+    this.idTokenClaims = null
+    this.accessToken = null
+    this.refreshToken = null
+    this.tokenExpirationTime = null
+
+    this.tokenStorage.remove(this.sessionStorageKey)
+    this.tokenRefreshScheduler.schedule()
+    this.events.emit('loggedOut', undefined)
+  }
+
+  /**
+   * Function to update the user data and notify the listeners about the change.
+   */
+  private setUserData(userData: FronteggUserData | null) {
+    const previousUserData = this.userData
+    this.userData = userData
+
+    const isSameAccessToken = previousUserData?.accessToken === userData?.accessToken
+    // User data decoded again from the same access token does not replace the state
+    if (
+      !isSameAccessToken ||
+      this.state.status !== (userData ? 'authenticated' : 'unauthenticated')
+    ) {
+      this.setState(
+        userData ? { status: 'authenticated', userData } : { status: 'unauthenticated' },
+      )
+    }
+
+    if (isSameAccessToken) {
+      return
+    }
+
+    this.events.emit('userDataChanged', userData)
+    if (userData?.isImpersonated && !previousUserData?.isImpersonated) {
+      this.events.emit('impersonationStarted', userData)
+    }
+  }
+
+  /**
+   * Function to update the state after a failed login or refresh.
+   * Errors other than 401 and `login_required` do not change the state of an authenticated user,
+   * whose tokens are still valid.
+   */
+  private setFailedState(error: unknown) {
+    if (
+      (error instanceof FronteggError && error.kind === 'unauthenticated') ||
+      (error instanceof FronteggOAuthCallbackError && error.error === 'login_required')
+    ) {
+      this.setState({ status: 'unauthenticated' })
+    } else if (this.state.status !== 'authenticated') {
+      this.setState({ status: 'error', error })
+    }
+  }
+
+  private setState(state: FronteggAuthState) {
+    if (isSameAuthState(this.state, state)) {
+      return
+    }
+
+    this.state = state
+    this.events.emit('stateChanged', state)
+  }
+
+  /**
+   * Returns the current authentication state.
+   * The same object is returned until the state changes, as required by `useSyncExternalStore`.
+   * Defined as an arrow function, so it can be passed around without binding.
+   */
+  public readonly getState = (): FronteggAuthState => this.state
+
+  /**
+   * Subscribes the listener to the changes of the authentication state.
+   * Compatible with `useSyncExternalStore` and signal libraries, defined as an arrow function
+   * so it can be passed around without binding.
+   *
+   * @returns a function to unsubscribe the listener
+   */
+  public readonly subscribe = (listener: (state: FronteggAuthState) => void) =>
+    this.events.on('stateChanged', listener)
+
+  /**
+   * Subscribes the listener to the authentication lifecycle event.
+   *
+   * @returns a function to unsubscribe the listener
+   */
+  public on<Event extends keyof FronteggOAuthClientEvents>(
+    event: Event,
+    listener: (payload: FronteggOAuthClientEvents[Event]) => void,
+  ) {
+    return this.events.on(event, listener)
+  }
+
+  /**
+   * Unsubscribes the listener from the authentication lifecycle event.
+   */
+  public off<Event extends keyof FronteggOAuthClientEvents>(
+    event: Event,
+    listener: (payload: FronteggOAuthClientEvents[Event]) => void,
+  ) {
+    this.events.off(event, listener)
+  }
+
+  /**
+   * Function to restore the session persisted in the token storage.
+   * Invalid sessions (e.g. written by an incompatible version of the client) are removed from the storage.
+   */
+  private restoreSession() {
+    const serializedSession = this.tokenStorage.get(this.sessionStorageKey)
+    if (!serializedSession) {
+      return
+    }
+
+    try {
+      const session = STORED_SESSION_SCHEMA.parse(JSON.parse(serializedSession))
+
+      const userData = decodeAccessToken(session.accessToken)
+      // Unverified user data is not exposed, it is decoded again from the access token once verified
+      this.userData = this.jwksVerifier ? null : userData
+      this.idTokenClaims = session.idToken ? parseIdTokenClaims(session.idToken) : null
+      this.idToken = session.idToken ?? null
+      this.accessToken = session.accessToken
+      this.refreshToken = session.refreshToken
+      this.tokenExpirationTime = session.tokenExpirationTime
+    } catch {
+      this.tokenStorage.remove(this.sessionStorageKey)
+    }
+  }
+
+  /**
+   * Returns a serializable snapshot of the current session, e.g. to hand the session over
+   * from the server-side rendering or to share it with a micro-frontend.
+   * It can be restored by `FronteggOAuthClient.fromSession`.
+   *
+   * @returns the snapshot of the session, or null if there is no session
+   */
+  public exportSession(): FronteggSessionSnapshot | null {
+    if (!this.accessToken || !this.refreshToken || !this.tokenExpirationTime) {
+      return null
+    }
+
+    return createSessionSnapshot({
+      accessToken: this.accessToken,
+      refreshToken: this.refreshToken,
+      tokenExpirationTime: this.tokenExpirationTime,
+      idToken: this.idToken,
+    })
+  }
+
+  /**
+   * Creates a client with the session of the snapshot created by `exportSession`.
+   * Snapshots of older versions are migrated, including the unversioned
+   * `{ userData, refreshToken, tokenExpirationTime }` object passed to the constructor so far.
+   * The session replaces the session persisted in the token storage.
+   *
+   * @param snapshot the snapshot, e.g. parsed from JSON
+   * @param config config of the created client
+   * @throws FronteggSessionSnapshotError if the snapshot is malformed, of an unsupported version or expired
+   */
+  public static fromSession(snapshot: unknown, config: FronteggOAuthClientConfig) {
+    const { accessToken, refreshToken, tokenExpirationTime, idToken } = parseSessionSnapshot(
+      snapshot,
+      config.clock ?? Date,
+    )
+
+    const client = new FronteggOAuthClient(config)
+    client.applySession({ accessToken, refreshToken, tokenExpirationTime, idToken })
+    // Unverified user data is not exposed, it is decoded again from the access token once verified
+    if (!client.jwksVerifier) client.setUserData(decodeAccessToken(accessToken))
+    return client
+  }
+
+  /**
+   * Key under which the session is persisted in the token storage.
+   */
+  private get sessionStorageKey() {
+    return `frontegg-oauth-client:session:${this.storageNamespace}`
   }
 
   /**
    * Function to generate a valid Frontegg OAuth login URL
-   * Stores the code verifier variable in the local storage to be used when exchanging the OAuth code for a user access token
+   * Generates a new code verifier for every login attempt and stores it in the login storage
+   * to be used when exchanging the OAuth code for a user access token
+   * Stores the state and the nonce in the login storage to be validated by `handleRedirectCallback`
    *
+   * @param options.returnTo relative path the user should be returned to after the login, defaults to `/`
+   * @param options authorization parameters (e.g. `loginHint` or `prompt`), overriding the client defaults
    * @returns a Frontegg OAuth login URL to redirect the user to
    * @see https://docs.frontegg.com/docs/native-hosted-login#step-2-request-auth-code
    */
-  public async getOAuthLoginUrl() {
-    const codeVerifier = await getCodeVerifier()
-    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier))
-    const hashedVerifier = btoa(String.fromCharCode(...new Uint8Array(digest)))
-      .replace(/=/g, '')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-    const nonce = createRandomString()
+  public async getOAuthLoginUrl({ returnTo, ...params }: FronteggLoginOptions = {}) {
+    return await this.createLoginUrl({ returnTo, params })
+  }
+
+  /**
+   * Function to generate the URL of the Frontegg hosted signup page.
+   * It starts the same OAuth login attempt as `getOAuthLoginUrl`, so the callback page completes
+   * the login of the newly registered user with `handleRedirectCallback`.
+   *
+   * @param options same as the options of `getOAuthLoginUrl`
+   * @returns a Frontegg signup URL to redirect the user to
+   */
+  public async getSignupUrl({ returnTo, ...params }: FronteggLoginOptions = {}) {
+    const loginUrl = await this.createLoginUrl({ returnTo, params })
+    const signupUrl = new URL(`${this.baseUrl}/oauth/account/sign-up`)
+    signupUrl.search = loginUrl.search
+    return signupUrl
+  }
+
+  /**
+   * Function to start the login attempt and generate its login URL.
+   *
+   * @param options.isWindowLogin marks the login in a popup or an iframe, so the callback page forwards the callback
+   * @param options.params authorization parameters, merged into the client defaults
+   */
+  private async createLoginUrl({
+    returnTo = '/',
+    isWindowLogin = false,
+    params,
+  }: {
+    returnTo?: string
+    isWindowLogin?: boolean
+    params: FronteggAuthorizationParams
+  }) {
+    const codeVerifier = createCodeVerifier(this.runtime)
+    const hashedVerifier = await createCodeChallenge(codeVerifier, this.runtime)
+    const nonce = createRandomString(this.runtime)
+    const state = `${isWindowLogin ? LOGIN_WINDOW_STATE_PREFIX : ''}${createRandomString(this.runtime)}`
+
+    saveLoginTransaction({
+      storageNamespace: this.storageNamespace,
+      state,
+      transaction: {
+        nonce,
+        returnTo: isRelativePath(returnTo) ? returnTo : '/',
+        codeVerifier,
+        createdAt: this.runtime.clock.now(),
+      },
+      ttlMs: this.codeVerifierTtlMs,
+      runtime: this.runtime,
+    })
+
+    // Safari has a bug, where the localStorage value is not set if it is followed by redirect right after it.
+    // To workaround this, we wait for a short period of time before returning the login URL.
+    // See https://lokalise.atlassian.net/browse/AP-4043 for more details.
+    // The current page is not redirected by the window logins, so there is no need to wait for them.
+    if (!isWindowLogin && this.codeVerifierPersistDelayMs > 0) {
+      await wait(this.codeVerifierPersistDelayMs, null)
+    }
 
     const loginUrl = new URL(`${this.baseUrl}/frontegg/oauth/authorize`)
+    setAuthorizationParams(loginUrl, mergeAuthorizationParams(this.authorizationParams, params))
     loginUrl.searchParams.set('client_id', this.clientId)
     loginUrl.searchParams.set('redirect_uri', this.redirectUri)
     loginUrl.searchParams.set('response_type', 'code')
-    loginUrl.searchParams.set('scope', 'openid profile email')
     loginUrl.searchParams.set('code_challenge', hashedVerifier)
     loginUrl.searchParams.set('code_challenge_method', 'S256')
     loginUrl.searchParams.set('nonce', nonce)
+    loginUrl.searchParams.set('state', state)
 
     return loginUrl
   }
@@ -443,29 +1628,12 @@ export class FronteggOAuthClient {
   /**
    * Returns URL for the Frontegg logout page.
    * After the user is logged out, the function redirects the user to the provided URL.
+   * The current ID token is passed as `id_token_hint` to identify the session being logged out.
    */
   public getOAuthLogoutUrl() {
     const url = new URL(`${this.baseUrl}/frontegg/oauth/logout`)
     url.searchParams.set('post_logout_redirect_uri', this.logoutRedirectUri)
+    if (this.idToken) url.searchParams.set('id_token_hint', this.idToken)
     return url.toString()
   }
-
-  /**
-   * Function to decode the user JWT access token and extract the user data.
-   */
-  private decodeAccessToken(userAccessToken: string): FronteggUserData {
-    const decodedJwt = decodeJwt(userAccessToken)
-    const parsedUserData = FRONTEGG_DECODED_TOKEN_SCHEMA.parse(decodedJwt)
-
-    return {
-      externalUserId: parsedUserData.sub,
-      accessToken: userAccessToken,
-      email: parsedUserData.email,
-      name: parsedUserData.name,
-      profilePictureUrl: parsedUserData.profilePictureUrl,
-      externalWorkspaceId: parsedUserData.tenantId,
-      // the act object is available only when the current session is being impersonated
-      isImpersonated: parsedUserData.act !== undefined,
-    }
-  }
 }
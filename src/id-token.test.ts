@@ -0,0 +1,66 @@
+import { decodeIdToken, parseIdTokenClaims } from './id-token'
+import { createJwt } from './test-utils'
+
+const issuer = 'http://frontegg-test-instance.local'
+const audience = 'test-client-id'
+
+const CLAIMS = {
+  iss: issuer,
+  sub: 'test-user-id',
+  aud: audience,
+  iat: Math.floor(Date.now() / 1000),
+  exp: Math.floor(Date.now() / 1000) + 3600,
+  email: 'test@lokalise.com',
+  email_verified: false,
+  tenantId: 'test-tenant-id',
+}
+
+describe('id-token', () => {
+  describe('parseIdTokenClaims', () => {
+    it('returns standard and custom claims', () => {
+      expect(parseIdTokenClaims(createJwt(CLAIMS))).toEqual(CLAIMS)
+    })
+
+    it('throws an error for a token which is not a JWT', () => {
+      expect(() => parseIdTokenClaims('test-id-token')).toThrowError('ID token is not a valid JWT.')
+    })
+
+    it('throws an error for a token without the required claims', () => {
+      expect(() => parseIdTokenClaims(createJwt({ sub: 'test-user-id' }))).toThrowError(
+        'ID token does not contain the required claims.',
+      )
+    })
+  })
+
+  describe('decodeIdToken', () => {
+    it('returns the claims of a valid token', () => {
+      expect(decodeIdToken(createJwt(CLAIMS), { issuer: `${issuer}/`, audience })).toEqual(CLAIMS)
+    })
+
+    it('accepts the audience as an array', () => {
+      const idToken = createJwt({ ...CLAIMS, aud: ['other-client-id', audience] })
+
+      expect(decodeIdToken(idToken, { issuer, audience }).aud).toEqual([
+        'other-client-id',
+        audience,
+      ])
+    })
+
+    it('tolerates a small clock difference', () => {
+      const idToken = createJwt({ ...CLAIMS, iat: CLAIMS.iat + 30, exp: CLAIMS.iat - 30 })
+
+      expect(() => decodeIdToken(idToken, { issuer, audience })).not.toThrow()
+    })
+
+    it.each([
+      [{ iss: 'http://other-instance.local' }, 'ID token issuer'],
+      [{ aud: 'other-client-id' }, 'ID token audience'],
+      [{ exp: CLAIMS.iat - 120 }, 'ID token is expired.'],
+      [{ iat: CLAIMS.iat + 120 }, 'ID token is issued in the future.'],
+    ])('rejects invalid claims %o', (invalidClaims, expectedError) => {
+      const idToken = createJwt({ ...CLAIMS, ...invalidClaims })
+
+      expect(() => decodeIdToken(idToken, { issuer, audience })).toThrowError(expectedError)
+    })
+  })
+})
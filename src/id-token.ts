@@ -0,0 +1,86 @@
+import { z } from 'zod'
+import { CLOCK_TOLERANCE_SECONDS, decodeJwt, removeTrailingSlash } from './jwt'
+import type { Clock } from './runtime'
+
+const ID_TOKEN_CLAIMS_SCHEMA = z.looseObject({
+  iss: z.string(),
+  sub: z.string(),
+  aud: z.union([z.string(), z.array(z.string())]),
+  exp: z.number(),
+  iat: z.number(),
+  nonce: z.string().optional(),
+  auth_time: z.number().optional(),
+  amr: z.array(z.string()).optional(),
+  name: z.string().optional(),
+  given_name: z.string().optional(),
+  family_name: z.string().optional(),
+  picture: z.string().nullable().optional(),
+  locale: z.string().optional(),
+  email: z.string().optional(),
+  email_verified: z.boolean().optional(),
+})
+
+/**
+ * Standard OpenID Connect claims of the ID token.
+ * Claims not listed here are kept as well, but they are not typed.
+ *
+ * @see https://openid.net/specs/openid-connect-core-1_0.html#StandardClaims
+ */
+export type IdTokenClaims = z.infer<typeof ID_TOKEN_CLAIMS_SCHEMA>
+
+/**
+ * Function to decode the ID token claims without validating them,
+ * used for ID tokens which have been already validated when they were received.
+ *
+ * @throws Error if the ID token does not contain the required claims
+ */
+export const parseIdTokenClaims = (idToken: string): IdTokenClaims => {
+  let payload: unknown
+  try {
+    payload = decodeJwt(idToken)
+  } catch {
+    throw new Error('ID token is not a valid JWT.')
+  }
+
+  const result = ID_TOKEN_CLAIMS_SCHEMA.safeParse(payload)
+  if (!result.success) {
+    throw new Error('ID token does not contain the required claims.')
+  }
+  return result.data
+}
+
+/**
+ * Function to decode the ID token and validate its claims.
+ *
+ * @param options.issuer expected issuer, the Frontegg base URL
+ * @param options.audience expected audience, the client id
+ * @param options.clock source of the current time, defaults to `Date`
+ * @returns the ID token claims
+ * @throws Error describing the first invalid claim
+ */
+export const decodeIdToken = (
+  idToken: string,
+  options: { issuer: string; audience: string; clock?: Clock },
+): IdTokenClaims => {
+  const claims = parseIdTokenClaims(idToken)
+  const now = (options.clock ?? Date).now() / 1000
+
+  if (removeTrailingSlash(claims.iss) !== removeTrailingSlash(options.issuer)) {
+    throw new Error(`ID token issuer "${claims.iss}" does not match "${options.issuer}".`)
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (!audiences.includes(options.audience)) {
+    throw new Error(`ID token audience does not include "${options.audience}".`)
+  }
+
+  if (claims.exp + CLOCK_TOLERANCE_SECONDS < now) {
+    throw new Error('ID token is expired.')
+  }
+
+  if (claims.iat - CLOCK_TOLERANCE_SECONDS > now) {
+    throw new Error('ID token is issued in the future.')
+  }
+
+  return claims
+}
@@ -1,7 +1,56 @@
+export type {
+  FronteggDecodedToken,
+  FronteggImpersonation,
+  FronteggUserData,
+} from './access-token'
+export type { AuthenticatedFetch, AuthenticatedFetchOptions } from './authenticated-fetch'
+export { hasAllPermissions, hasPermission, hasRole } from './authorization'
+export type { FronteggAuthorizationParams } from './authorization-params'
 export {
-  FronteggError,
+  type FronteggRegionHint,
+  FronteggRegionSelector,
+  type FronteggRegionSelectorOptions,
+  getFronteggOAuthClient,
+} from './client-registry'
+export {
+  type FronteggDeviceAuthorization,
+  FronteggDeviceAuthorizationError,
+  type FronteggDeviceAuthorizationErrorReason,
+} from './device-authorization'
+export type { FetchWithAssertOptions, RetryOptions } from './fetch-with-assert'
+export { FronteggError, type FronteggErrorKind } from './frontegg-error'
+export {
+  type FronteggAuthState,
+  type FronteggLoginOptions,
+  FronteggOAuthCallbackError,
   FronteggOAuthClient,
-  type FronteggUserData,
+  type FronteggOAuthClientConfig,
+  type FronteggOAuthClientEvents,
+  type FronteggTenant,
   type GetFronteggTokenResponse,
-  type FronteggDecodedToken,
 } from './frontegg-oauth-client'
+export type { IdTokenClaims } from './id-token'
+export {
+  FronteggTokenVerificationError,
+  type FronteggTokenVerificationErrorReason,
+} from './jwks'
+export { FronteggLoginWindowError, type FronteggLoginWindowErrorReason } from './login-window'
+export {
+  type Clock,
+  type CryptoProvider,
+  FronteggConfigurationError,
+  type RuntimeOptions,
+} from './runtime'
+export {
+  type FronteggSessionSnapshot,
+  FronteggSessionSnapshotError,
+  type FronteggSessionSnapshotErrorReason,
+} from './session-snapshot'
+export { TokenRefreshScheduler } from './token-refresh-scheduler'
+export {
+  InMemoryTokenStorage,
+  LocalStorageTokenStorage,
+  SessionStorageTokenStorage,
+  type StoredSession,
+  type TokenStorage,
+} from './token-storage'
@@ -0,0 +1,174 @@
+import { HttpResponse, http } from 'msw'
+import { setupServer } from 'msw/node'
+
+import { FronteggTokenVerificationError, JwksVerifier } from './jwks'
+
+const baseUrl = 'http://frontegg-test-instance.local'
+
+const encode = (value: Uint8Array | string) =>
+  btoa(typeof value === 'string' ? value : String.fromCharCode(...value))
+    .replace(/=/g, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+
+const createKeyPair = async (kid: string) => {
+  const keyPair = await crypto.subtle.generateKey(
+    {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    true,
+    ['sign', 'verify'],
+  )
+  const publicJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey)
+
+  return {
+    kid,
+    privateKey: keyPair.privateKey,
+    jwk: { ...publicJwk, kid, alg: 'RS256', use: 'sig' },
+  }
+}
+
+type KeyPair = Awaited<ReturnType<typeof createKeyPair>>
+
+/**
+ * Creates a JWT signed with RS256 by the given key pair.
+ */
+const signJwt = async (keyPair: KeyPair, payload: Record<string, unknown>) => {
+  const signingInput = `${encode(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: keyPair.kid }))}.${encode(JSON.stringify(payload))}`
+  const signature = await crypto.subtle.sign(
+    'RSASSA-PKCS1-v1_5',
+    keyPair.privateKey,
+    new TextEncoder().encode(signingInput),
+  )
+  return `${signingInput}.${encode(new Uint8Array(signature))}`
+}
+
+const now = () => Math.floor(Date.now() / 1000)
+
+const createPayload = () => ({
+  iss: baseUrl,
+  sub: 'test-user-id',
+  iat: now(),
+  exp: now() + 3600,
+})
+
+const server = setupServer()
+server.listen()
+
+describe('jwks', () => {
+  let currentKey: KeyPair
+  let nextKey: KeyPair
+  let jwksRequests: number
+
+  beforeAll(async () => {
+    currentKey = await createKeyPair('current-key')
+    nextKey = await createKeyPair('next-key')
+  })
+
+  const serveKeys = (...keyPairs: KeyPair[]) => {
+    server.use(
+      http.get(`${baseUrl}/.well-known/jwks.json`, () => {
+        jwksRequests++
+        return HttpResponse.json({ keys: keyPairs.map((keyPair) => keyPair.jwk) })
+      }),
+    )
+  }
+
+  beforeEach(() => {
+    server.resetHandlers()
+    jwksRequests = 0
+    serveKeys(currentKey)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('returns the payload of a valid token', async () => {
+    const payload = createPayload()
+    const verifier = new JwksVerifier({ baseUrl: `${baseUrl}/` })
+
+    await expect(verifier.verify(await signJwt(currentKey, payload))).resolves.toEqual(payload)
+  })
+
+  it('caches the key set between verifications', async () => {
+    const verifier = new JwksVerifier({ baseUrl })
+
+    await verifier.verify(await signJwt(currentKey, createPayload()))
+    await verifier.verify(await signJwt(currentKey, createPayload()))
+
+    expect(jwksRequests).toBe(1)
+  })
+
+  it('refetches the key set when the token is signed by an unknown key', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const verifier = new JwksVerifier({ baseUrl })
+    await verifier.verify(await signJwt(currentKey, createPayload()))
+
+    serveKeys(currentKey, nextKey)
+    vi.setSystemTime(Date.now() + 60 * 1000)
+
+    await expect(verifier.verify(await signJwt(nextKey, createPayload()))).resolves.toBeDefined()
+    expect(jwksRequests).toBe(2)
+  })
+
+  it('does not refetch the key set again right after the previous fetch', async () => {
+    const verifier = new JwksVerifier({ baseUrl })
+    await verifier.verify(await signJwt(currentKey, createPayload()))
+
+    await expect(verifier.verify(await signJwt(nextKey, createPayload()))).rejects.toMatchObject({
+      reason: 'unknownKey',
+    })
+    expect(jwksRequests).toBe(1)
+  })
+
+  it('rejects a token with a tampered payload', async () => {
+    const verifier = new JwksVerifier({ baseUrl })
+    const [header, , signature] = (await signJwt(currentKey, createPayload())).split('.')
+    const tamperedPayload = encode(JSON.stringify({ ...createPayload(), sub: 'other-user-id' }))
+
+    await expect(
+      verifier.verify(`${header}.${tamperedPayload}.${signature}`),
+    ).rejects.toMatchObject({ reason: 'invalidSignature' })
+  })
+
+  it('rejects an unsigned token', async () => {
+    const verifier = new JwksVerifier({ baseUrl })
+    const token = `${encode(JSON.stringify({ alg: 'none' }))}.${encode(JSON.stringify(createPayload()))}.`
+
+    await expect(verifier.verify(token)).rejects.toMatchObject({ reason: 'unsupportedAlgorithm' })
+  })
+
+  it('rejects a token which is not a JWT', async () => {
+    const verifier = new JwksVerifier({ baseUrl })
+
+    await expect(verifier.verify('test-access-token')).rejects.toThrowError(
+      new FronteggTokenVerificationError('malformed', 'Token is not a valid JWT.'),
+    )
+  })
+
+  it.each([
+    ['expired', { exp: now() - 3600 }],
+    ['notYetValid', { nbf: now() + 3600 }],
+    ['invalidIssuer', { iss: 'http://other-instance.local' }],
+  ])('rejects a token with %s claims', async (reason, claims) => {
+    const verifier = new JwksVerifier({ baseUrl })
+    const token = await signJwt(currentKey, { ...createPayload(), ...claims })
+
+    await expect(verifier.verify(token)).rejects.toMatchObject({ reason })
+  })
+
+  it('rejects the token when the key set cannot be fetched', async () => {
+    server.use(
+      http.get(`${baseUrl}/.well-known/jwks.json`, () => new HttpResponse(null, { status: 503 })),
+    )
+    const verifier = new JwksVerifier({ baseUrl })
+
+    await expect(verifier.verify(await signJwt(currentKey, createPayload()))).rejects.toMatchObject(
+      { reason: 'jwksUnavailable' },
+    )
+  })
+})
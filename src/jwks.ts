@@ -0,0 +1,288 @@
+import { z } from 'zod'
+import { CLOCK_TOLERANCE_SECONDS, decodeBase64Url, decodeJwt, removeTrailingSlash } from './jwt'
+import type { Clock, CryptoProvider } from './runtime'
+
+/**
+ * Minimum time between two fetches of the key set triggered by an unknown key id,
+ * prevents tokens with made up key ids from flooding Frontegg with requests.
+ */
+const MIN_JWKS_REFETCH_INTERVAL_MS = 30 * 1000
+
+/**
+ * Parameters of the RS256 algorithm for WebCrypto.
+ */
+const RS256_ALGORITHM = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }
+
+const JWT_HEADER_SCHEMA = z.looseObject({
+  alg: z.string(),
+  kid: z.string().optional(),
+})
+
+const JWKS_SCHEMA = z.object({
+  keys: z.array(
+    z.looseObject({
+      kty: z.string(),
+      kid: z.string().optional(),
+      alg: z.string().optional(),
+      use: z.string().optional(),
+      n: z.string().optional(),
+      e: z.string().optional(),
+    }),
+  ),
+})
+
+type JsonWebKeyEntry = z.infer<typeof JWKS_SCHEMA>['keys'][number]
+
+const JWT_TIME_CLAIMS_SCHEMA = z.looseObject({
+  iss: z.string().optional(),
+  aud: z.union([z.string(), z.array(z.string())]).optional(),
+  exp: z.number().optional(),
+  nbf: z.number().optional(),
+})
+
+/**
+ * Reason why the token was rejected:
+ * - `malformed` - the token is not a JWT
+ * - `unsupportedAlgorithm` - the token is not signed with RS256
+ * - `unknownKey` - the key id is not in the key set, even after refetching it
+ * - `jwksUnavailable` - the key set cannot be fetched
+ * - `invalidSignature` - the signature does not match the token
+ * - `expired` - the `exp` claim is in the past or missing
+ * - `notYetValid` - the `nbf` claim is in the future
+ * - `invalidIssuer` - the `iss` claim does not match the Frontegg base URL
+ * - `invalidAudience` - the `aud` claim does not contain the expected audience
+ */
+export type FronteggTokenVerificationErrorReason =
+  | 'malformed'
+  | 'unsupportedAlgorithm'
+  | 'unknownKey'
+  | 'jwksUnavailable'
+  | 'invalidSignature'
+  | 'expired'
+  | 'notYetValid'
+  | 'invalidIssuer'
+  | 'invalidAudience'
+
+/**
+ * Error thrown when the signature or the claims of a token cannot be verified.
+ */
+export class FronteggTokenVerificationError extends Error {
+  reason: FronteggTokenVerificationErrorReason
+
+  constructor(reason: FronteggTokenVerificationErrorReason, message: string) {
+    super(message)
+    this.name = 'FronteggTokenVerificationError'
+
+    this.reason = reason
+  }
+}
+
+/**
+ * Function to import a key from the key set, keys which are not RS256 signing keys are skipped.
+ */
+const importVerificationKey = async (jwk: JsonWebKeyEntry, crypto: CryptoProvider) => {
+  if (jwk.kty !== 'RSA' || !jwk.kid || (jwk.alg && jwk.alg !== 'RS256') || jwk.use === 'enc') {
+    return null
+  }
+
+  try {
+    const key = await crypto.subtle.importKey('jwk', jwk, RS256_ALGORITHM, false, ['verify'])
+    return { kid: jwk.kid, key }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Class verifying JWT signatures against the JSON Web Key Set published by Frontegg.
+ * The key set is fetched on the first verification and cached, it is fetched again
+ * when a token is signed by an unknown key, so the rotation of the signing keys is picked up.
+ */
+export class JwksVerifier {
+  private readonly baseUrl: string
+  private readonly fetch: typeof fetch
+  private readonly clock: Clock
+  private readonly crypto: CryptoProvider
+  private keys = new Map<string, CryptoKey>()
+  private keysPromise: Promise<void> | null = null
+  private lastFetchTime: number | null = null
+
+  constructor(options: {
+    /**
+     * Base URL of the Frontegg API, used as the expected issuer as well
+     */
+    baseUrl: string
+    /**
+     * Defaults to the global `fetch`.
+     */
+    fetch?: typeof fetch
+    /**
+     * Defaults to `Date`.
+     */
+    clock?: Clock
+    /**
+     * Defaults to the global `crypto`.
+     */
+    crypto?: CryptoProvider
+  }) {
+    this.baseUrl = removeTrailingSlash(options.baseUrl)
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init))
+    this.clock = options.clock ?? Date
+    this.crypto = options.crypto ?? globalThis.crypto
+  }
+
+  /**
+   * Verifies the RS256 signature of the token and its `exp`, `nbf` and `iss` claims.
+   *
+   * @param options.audience expected audience, the `aud` claim is not checked when omitted
+   * @param options.clockToleranceSeconds tolerance of the time based claims, defaults to 60 seconds
+   * @returns the verified token payload
+   * @throws FronteggTokenVerificationError if the token cannot be verified
+   */
+  public async verify(
+    token: string,
+    options: { audience?: string; clockToleranceSeconds?: number } = {},
+  ): Promise<Record<string, unknown>> {
+    const [encodedHeader, encodedPayload, encodedSignature] = token.split('.')
+    let header: z.infer<typeof JWT_HEADER_SCHEMA>
+    let payload: Record<string, unknown>
+    let signature: Uint8Array<ArrayBuffer>
+    try {
+      header = JWT_HEADER_SCHEMA.parse(
+        JSON.parse(new TextDecoder().decode(decodeBase64Url(encodedHeader))),
+      )
+      payload = decodeJwt(token)
+      signature = decodeBase64Url(encodedSignature)
+    } catch {
+      throw new FronteggTokenVerificationError('malformed', 'Token is not a valid JWT.')
+    }
+
+    if (header.alg !== 'RS256') {
+      throw new FronteggTokenVerificationError(
+        'unsupportedAlgorithm',
+        `Token algorithm "${header.alg}" is not supported, only RS256 is accepted.`,
+      )
+    }
+
+    const key = await this.getKey(header.kid)
+    const isValid = await this.crypto.subtle.verify(
+      RS256_ALGORITHM,
+      key,
+      signature,
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`),
+    )
+    if (!isValid) {
+      throw new FronteggTokenVerificationError('invalidSignature', 'Token signature is not valid.')
+    }
+
+    this.verifyClaims(payload, options)
+    return payload
+  }
+
+  private verifyClaims(
+    payload: Record<string, unknown>,
+    {
+      audience,
+      clockToleranceSeconds = CLOCK_TOLERANCE_SECONDS,
+    }: { audience?: string; clockToleranceSeconds?: number },
+  ) {
+    const claims = JWT_TIME_CLAIMS_SCHEMA.safeParse(payload)
+    if (!claims.success) {
+      throw new FronteggTokenVerificationError('malformed', 'Token claims are not valid.')
+    }
+
+    const now = this.clock.now() / 1000
+    const { iss, aud, exp, nbf } = claims.data
+
+    if (exp === undefined || exp + clockToleranceSeconds < now) {
+      throw new FronteggTokenVerificationError('expired', 'Token is expired.')
+    }
+
+    if (nbf !== undefined && nbf - clockToleranceSeconds > now) {
+      throw new FronteggTokenVerificationError('notYetValid', 'Token is not valid yet.')
+    }
+
+    if (iss === undefined || removeTrailingSlash(iss) !== this.baseUrl) {
+      throw new FronteggTokenVerificationError(
+        'invalidIssuer',
+        `Token issuer "${iss}" does not match "${this.baseUrl}".`,
+      )
+    }
+
+    const audiences = Array.isArray(aud) ? aud : [aud]
+    if (audience !== undefined && !audiences.includes(audience)) {
+      throw new FronteggTokenVerificationError(
+        'invalidAudience',
+        `Token audience does not include "${audience}".`,
+      )
+    }
+  }
+
+  /**
+   * Function to get the key by its id, fetching the key set when the key is not cached.
+   */
+  private async getKey(kid: string | undefined) {
+    if (!kid) {
+      throw new FronteggTokenVerificationError('unknownKey', 'Token does not specify a key id.')
+    }
+
+    const cachedKey = this.keys.get(kid)
+    if (cachedKey) {
+      return cachedKey
+    }
+
+    const canRefetch =
+      this.lastFetchTime === null ||
+      this.lastFetchTime + MIN_JWKS_REFETCH_INTERVAL_MS <= this.clock.now()
+    if (canRefetch || this.keysPromise) {
+      await this.fetchKeys()
+    }
+
+    const key = this.keys.get(kid)
+    if (!key) {
+      throw new FronteggTokenVerificationError(
+        'unknownKey',
+        `Token is signed by an unknown key "${kid}".`,
+      )
+    }
+    return key
+  }
+
+  /**
+   * Function to fetch the key set, concurrent calls share the same request.
+   */
+  private fetchKeys() {
+    if (!this.keysPromise) {
+      this.lastFetchTime = this.clock.now()
+      this.keysPromise = this.loadKeys().finally(() => {
+        this.keysPromise = null
+      })
+    }
+
+    return this.keysPromise
+  }
+
+  private async loadKeys() {
+    const url = `${this.baseUrl}/.well-known/jwks.json`
+    let jwks: z.infer<typeof JWKS_SCHEMA>
+    try {
+      const response = await this.fetch(url, { method: 'GET' })
+      if (!response.ok) {
+        throw new Error(`Status ${response.status}`)
+      }
+      jwks = JWKS_SCHEMA.parse(await response.json())
+    } catch (error: unknown) {
+      throw new FronteggTokenVerificationError(
+        'jwksUnavailable',
+        `Unable to fetch the key set from ${url}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+
+    const importedKeys = await Promise.all(
+      jwks.keys.map((jwk) => importVerificationKey(jwk, this.crypto)),
+    )
+    this.keys = new Map(
+      importedKeys.filter((entry) => entry !== null).map((entry) => [entry.kid, entry.key]),
+    )
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Function to decode a JWT token
+ * Based on https://stackoverflow.com/a/30106551/10876985 and https://github.com/auth0/jwt-decode
+ *
+ * @param token the JWT token to decode
+ * @returns the decoded JWT token
+ */
+export const decodeJwt = (token: string): Record<string, unknown> => {
+  // Extract the base64 payload from the token
+  const base64Url = token.split('.')[1]
+  // Replace URL-safe characters with the base64 standard characters
+  let base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/')
+  // Add padding to the base64 string if needed, as base64 strings need to be a multiple of 4 characters
+  switch (base64.length % 4) {
+    case 0:
+      break
+    case 2:
+      base64 += '=='
+      break
+    case 3:
+      base64 += '='
+      break
+    default:
+      throw new Error('base64 string is not of the correct length')
+  }
+  // Decode the base64 string and replace special characters with their hex representation
+  // Only using atob would not work in all cases, as it does not decode all special characters
+  // See https://stackoverflow.com/a/30106551/10876985 for more details
+  const jsonPayload = decodeURIComponent(
+    atob(base64).replace(/(.)/g, (_m, p) => {
+      let code = (p as string).charCodeAt(0).toString(16).toUpperCase()
+      if (code.length < 2) {
+        code = `0${code}`
+      }
+      return `%${code}`
+    }),
+  )
+  // Parse the JSON payload and return it
+  return JSON.parse(jsonPayload)
+}
+
+/**
+ * Tolerance for the clock difference between the client and Frontegg when checking time based claims.
+ */
+export const CLOCK_TOLERANCE_SECONDS = 60
+
+/**
+ * Function to remove the trailing slash from the issuer, so `https://example.com/` matches `https://example.com`.
+ */
+export const removeTrailingSlash = (url: string) => url.replace(/\/+$/, '')
+
+/**
+ * Function to decode a base64url encoded JWT segment to bytes.
+ */
+export const decodeBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))
+  return Uint8Array.from(binary, (character) => character.charCodeAt(0))
+}
@@ -0,0 +1,143 @@
+import {
+  consumeLegacyCodeVerifier,
+  consumeLoginTransaction,
+  getLatestLoginState,
+  type LoginTransaction,
+  removeLoginTransactions,
+  saveLoginTransaction,
+} from './login-transaction'
+import { createRuntime } from './runtime'
+
+const storageNamespace = 'test-client-id@http://frontegg-test-instance.local'
+const ttlMs = 1000
+
+describe('login-transaction', () => {
+  let now = 1700000000000
+  const runtime = { ...createRuntime(), clock: { now: () => now } }
+
+  const createTransaction = (codeVerifier: string): LoginTransaction => ({
+    nonce: `nonce-of-${codeVerifier}`,
+    returnTo: '/projects',
+    codeVerifier,
+    createdAt: now,
+  })
+
+  beforeEach(() => {
+    localStorage.clear()
+    now = 1700000000000
+  })
+
+  it('keeps the transactions of logins started at the same time apart', () => {
+    saveLoginTransaction({
+      storageNamespace,
+      state: 'state-1',
+      transaction: createTransaction('verifier-1'),
+      ttlMs,
+      runtime,
+    })
+    saveLoginTransaction({
+      storageNamespace,
+      state: 'state-2',
+      transaction: createTransaction('verifier-2'),
+      ttlMs,
+      runtime,
+    })
+
+    expect(getLatestLoginState(storageNamespace, runtime)).toBe('state-2')
+    expect(consumeLoginTransaction({ storageNamespace, state: 'state-1', ttlMs, runtime })).toEqual(
+      createTransaction('verifier-1'),
+    )
+    expect(consumeLoginTransaction({ storageNamespace, state: 'state-2', ttlMs, runtime })).toEqual(
+      createTransaction('verifier-2'),
+    )
+    expect(localStorage).toHaveLength(0)
+  })
+
+  it('returns the transaction only once', () => {
+    saveLoginTransaction({
+      storageNamespace,
+      state: 'state-1',
+      transaction: createTransaction('verifier-1'),
+      ttlMs,
+      runtime,
+    })
+
+    consumeLoginTransaction({ storageNamespace, state: 'state-1', ttlMs, runtime })
+
+    expect(
+      consumeLoginTransaction({ storageNamespace, state: 'state-1', ttlMs, runtime }),
+    ).toBeNull()
+  })
+
+  it('returns null for an expired transaction', () => {
+    saveLoginTransaction({
+      storageNamespace,
+      state: 'state-1',
+      transaction: createTransaction('verifier-1'),
+      ttlMs,
+      runtime,
+    })
+
+    now += ttlMs
+
+    expect(
+      consumeLoginTransaction({ storageNamespace, state: 'state-1', ttlMs, runtime }),
+    ).toBeNull()
+  })
+
+  it('returns null for a malformed transaction', () => {
+    localStorage.setItem(`frontegg-oauth-client:login-transaction:${storageNamespace}:state-1`, '{')
+
+    expect(
+      consumeLoginTransaction({ storageNamespace, state: 'state-1', ttlMs, runtime }),
+    ).toBeNull()
+  })
+
+  it('removes the expired transactions of abandoned logins', () => {
+    saveLoginTransaction({
+      storageNamespace,
+      state: 'state-1',
+      transaction: createTransaction('verifier-1'),
+      ttlMs,
+      runtime,
+    })
+
+    now += ttlMs
+    saveLoginTransaction({
+      storageNamespace,
+      state: 'state-2',
+      transaction: createTransaction('verifier-2'),
+      ttlMs,
+      runtime,
+    })
+
+    expect(
+      localStorage.getItem(`frontegg-oauth-client:login-transaction:${storageNamespace}:state-1`),
+    ).toBeNull()
+    expect(consumeLoginTransaction({ storageNamespace, state: 'state-2', ttlMs, runtime })).toEqual(
+      createTransaction('verifier-2'),
+    )
+  })
+
+  it('returns the verifier stored by previous versions only once', () => {
+    localStorage.setItem('LOGIN_VERIFIER_KEY', 'legacy-verifier')
+
+    expect(consumeLegacyCodeVerifier(runtime)).toBe('legacy-verifier')
+    expect(consumeLegacyCodeVerifier(runtime)).toBeNull()
+  })
+
+  it('removes all transactions including the verifier stored by previous versions', () => {
+    saveLoginTransaction({
+      storageNamespace,
+      state: 'state-1',
+      transaction: createTransaction('verifier-1'),
+      ttlMs,
+      runtime,
+    })
+    localStorage.setItem('LOGIN_VERIFIER_KEY', 'legacy-verifier')
+
+    removeLoginTransactions(storageNamespace, runtime)
+
+    expect(localStorage).toHaveLength(0)
+  })
+})
@@ -0,0 +1,182 @@
+import { z } from 'zod'
+import type { Runtime } from './runtime'
+
+/**
+ * Key used by previous versions of the client to store the code verifier for all clients.
+ */
+const LEGACY_CODE_VERIFIER_KEY = 'LOGIN_VERIFIER_KEY'
+
+const LOGIN_TRANSACTION_SCHEMA = z.object({
+  nonce: z.string(),
+  returnTo: z.string(),
+  codeVerifier: z.string(),
+  createdAt: z.number(),
+})
+
+/**
+ * Data persisted when the login starts, used to validate the OAuth callback and to exchange its code.
+ */
+export type LoginTransaction = z.infer<typeof LOGIN_TRANSACTION_SCHEMA>
+
+const LOGIN_TRANSACTION_INDEX_SCHEMA = z.array(
+  z.object({
+    state: z.string(),
+    createdAt: z.number(),
+  }),
+)
+
+type LoginTransactionIndex = z.infer<typeof LOGIN_TRANSACTION_INDEX_SCHEMA>
+
+/**
+ * Key of the login transaction in the login storage. Every login attempt has its own key,
+ * so logins started in several tabs at once (e.g. after the session expired) do not overwrite each other.
+ */
+const getLoginTransactionKey = (storageNamespace: string, state: string) =>
+  `frontegg-oauth-client:login-transaction:${storageNamespace}:${state}`
+
+/**
+ * Key of the list of the pending login transactions, used to remove the expired ones.
+ */
+const getLoginTransactionIndexKey = (storageNamespace: string) =>
+  `frontegg-oauth-client:login-transactions:${storageNamespace}`
+
+const getLoginTransactionIndex = (
+  storageNamespace: string,
+  { loginStorage }: Pick<Runtime, 'loginStorage'>,
+): LoginTransactionIndex => {
+  const serializedIndex = loginStorage.get(getLoginTransactionIndexKey(storageNamespace))
+  if (!serializedIndex) {
+    return []
+  }
+
+  try {
+    return LOGIN_TRANSACTION_INDEX_SCHEMA.parse(JSON.parse(serializedIndex))
+  } catch {
+    return []
+  }
+}
+
+const setLoginTransactionIndex = (
+  storageNamespace: string,
+  index: LoginTransactionIndex,
+  { loginStorage }: Pick<Runtime, 'loginStorage'>,
+) => {
+  const key = getLoginTransactionIndexKey(storageNamespace)
+  if (index.length > 0) {
+    loginStorage.set(key, JSON.stringify(index))
+  } else {
+    loginStorage.remove(key)
+  }
+}
+
+/**
+ * Function to store the login transaction under its state and to remove the expired transactions
+ * of abandoned logins.
+ *
+ * @param options.ttlMs time after which the transaction is considered expired
+ */
+export const saveLoginTransaction = ({
+  storageNamespace,
+  state,
+  transaction,
+  ttlMs,
+  runtime,
+}: {
+  storageNamespace: string
+  state: string
+  transaction: LoginTransaction
+  ttlMs: number
+  runtime: Pick<Runtime, 'clock' | 'loginStorage'>
+}) => {
+  const now = runtime.clock.now()
+  const index = getLoginTransactionIndex(storageNamespace, runtime).filter((entry) => {
+    const isExpired = entry.createdAt + ttlMs <= now
+    if (isExpired) {
+      runtime.loginStorage.remove(getLoginTransactionKey(storageNamespace, entry.state))
+    }
+    return !isExpired
+  })
+
+  runtime.loginStorage.set(
+    getLoginTransactionKey(storageNamespace, state),
+    JSON.stringify(transaction),
+  )
+  setLoginTransactionIndex(
+    storageNamespace,
+    [...index, { state, createdAt: transaction.createdAt }],
+    runtime,
+  )
+}
+
+/**
+ * Returns the state of the most recently started login, for callers which do not know the state of the callback.
+ */
+export const getLatestLoginState = (
+  storageNamespace: string,
+  runtime: Pick<Runtime, 'loginStorage'>,
+) => getLoginTransactionIndex(storageNamespace, runtime).at(-1)?.state ?? null
+
+/**
+ * Function to get and remove the login transaction of the state from the login storage, as it can be used only once.
+ *
+ * @param options.ttlMs time after which the transaction is considered expired
+ * @returns the transaction, or null if it is missing, malformed or expired
+ */
+export const consumeLoginTransaction = ({
+  storageNamespace,
+  state,
+  ttlMs,
+  runtime,
+}: {
+  storageNamespace: string
+  state: string
+  ttlMs: number
+  runtime: Pick<Runtime, 'clock' | 'loginStorage'>
+}): LoginTransaction | null => {
+  const key = getLoginTransactionKey(storageNamespace, state)
+  const serializedTransaction = runtime.loginStorage.get(key)
+  runtime.loginStorage.remove(key)
+  runtime.loginStorage.remove(LEGACY_CODE_VERIFIER_KEY)
+  setLoginTransactionIndex(
+    storageNamespace,
+    getLoginTransactionIndex(storageNamespace, runtime).filter((entry) => entry.state !== state),
+    runtime,
+  )
+
+  if (!serializedTransaction) {
+    return null
+  }
+
+  try {
+    const transaction = LOGIN_TRANSACTION_SCHEMA.parse(JSON.parse(serializedTransaction))
+    return transaction.createdAt + ttlMs > runtime.clock.now() ? transaction : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Function to get and remove the code verifier stored by previous versions of the client,
+ * so a login started before the upgrade can be completed once.
+ *
+ * @returns the code verifier, or null if there is none
+ */
+export const consumeLegacyCodeVerifier = ({ loginStorage }: Pick<Runtime, 'loginStorage'>) => {
+  const codeVerifier = loginStorage.get(LEGACY_CODE_VERIFIER_KEY)
+  loginStorage.remove(LEGACY_CODE_VERIFIER_KEY)
+  return codeVerifier
+}
+
+/**
+ * Function to remove all pending login transactions, including the code verifier stored by previous versions.
+ */
+export const removeLoginTransactions = (
+  storageNamespace: string,
+  runtime: Pick<Runtime, 'loginStorage'>,
+) => {
+  for (const { state } of getLoginTransactionIndex(storageNamespace, runtime)) {
+    runtime.loginStorage.remove(getLoginTransactionKey(storageNamespace, state))
+  }
+  runtime.loginStorage.remove(getLoginTransactionIndexKey(storageNamespace))
+  runtime.loginStorage.remove(LEGACY_CODE_VERIFIER_KEY)
+}
@@ -0,0 +1,146 @@
+import { z } from 'zod'
+
+/**
+ * Reason why the login in a popup or an iframe was not completed:
+ * - `popupBlocked` - the browser did not allow opening the popup, it has to be opened by a user action
+ * - `popupClosed` - the user closed the popup before finishing the login
+ * - `timeout` - the callback was not received in time
+ */
+export type FronteggLoginWindowErrorReason = 'popupBlocked' | 'popupClosed' | 'timeout'
+
+/**
+ * Error thrown when the login in a popup or a hidden iframe cannot be completed.
+ * Errors returned by Frontegg in the callback (e.g. `login_required`) are thrown as `FronteggOAuthCallbackError`.
+ */
+export class FronteggLoginWindowError extends Error {
+  reason: FronteggLoginWindowErrorReason
+
+  constructor(reason: FronteggLoginWindowErrorReason, message: string) {
+    super(message)
+    this.name = 'FronteggLoginWindowError'
+
+    this.reason = reason
+  }
+}
+
+/**
+ * Prefix of the OAuth state of logins in a popup or an iframe,
+ * it tells the callback page to forward the callback instead of completing the login itself.
+ * The random part of the state never contains a dot.
+ */
+export const LOGIN_WINDOW_STATE_PREFIX = 'window.'
+
+const CALLBACK_MESSAGE_TYPE = 'frontegg-oauth-client:callback'
+
+const CALLBACK_MESSAGE_SCHEMA = z.object({
+  type: z.literal(CALLBACK_MESSAGE_TYPE),
+  url: z.string(),
+})
+
+/**
+ * Interval of checking whether the user closed the popup, browsers do not emit any event for it.
+ */
+const POPUP_CLOSED_CHECK_INTERVAL_MS = 500
+
+/**
+ * Function to open an empty popup, the login URL is set once it is generated.
+ * It has to be called synchronously from a user action, otherwise browsers block the popup.
+ *
+ * @throws FronteggLoginWindowError if the popup is blocked
+ */
+export const openLoginPopup = ({ width = 500, height = 700 } = {}) => {
+  const left = window.screenX + (window.outerWidth - width) / 2
+  const top = window.screenY + (window.outerHeight - height) / 2
+  const popup = window.open(
+    'about:blank',
+    'frontegg-oauth-client:login',
+    `popup,width=${width},height=${height},left=${left},top=${top}`,
+  )
+  if (!popup) {
+    throw new FronteggLoginWindowError('popupBlocked', 'Login popup was blocked by the browser.')
+  }
+  return popup
+}
+
+/**
+ * Function to create a hidden iframe for the silent login, the login URL is set once the listener is registered.
+ */
+export const createLoginIframe = () => {
+  const iframe = document.createElement('iframe')
+  iframe.style.display = 'none'
+  iframe.setAttribute('aria-hidden', 'true')
+  document.body.appendChild(iframe)
+  return iframe
+}
+
+/**
+ * Function to wait for the callback URL posted by the callback page loaded in the popup or the iframe.
+ * Messages from other windows or other origins than the origin of the redirect URI are ignored.
+ *
+ * @param options.getSource returns the popup or the iframe window the message has to come from
+ * @param options.origin origin of the redirect URI
+ * @param options.isClosed checks whether the user closed the popup
+ * @returns the callback URL
+ * @throws FronteggLoginWindowError if the popup is closed or the callback is not received in time
+ */
+export const waitForCallbackUrl = (options: {
+  getSource: () => MessageEventSource | null
+  origin: string
+  timeoutMs: number
+  isClosed?: () => boolean
+}) =>
+  new Promise<string>((resolve, reject) => {
+    const cleanup = () => {
+      window.removeEventListener('message', handleMessage)
+      clearTimeout(timeout)
+      clearInterval(closedCheckInterval)
+    }
+
+    const handleMessage = (event: MessageEvent) => {
+      const source = options.getSource()
+      if (event.origin !== options.origin || !source || event.source !== source) {
+        return
+      }
+
+      const message = CALLBACK_MESSAGE_SCHEMA.safeParse(event.data)
+      if (message.success) {
+        cleanup()
+        resolve(message.data.url)
+      }
+    }
+
+    const timeout = setTimeout(() => {
+      cleanup()
+      reject(new FronteggLoginWindowError('timeout', 'Login callback was not received in time.'))
+    }, options.timeoutMs)
+
+    const closedCheckInterval = setInterval(() => {
+      if (options.isClosed?.()) {
+        cleanup()
+        reject(new FronteggLoginWindowError('popupClosed', 'Login popup was closed by the user.'))
+      }
+    }, POPUP_CLOSED_CHECK_INTERVAL_MS)
+
+    window.addEventListener('message', handleMessage)
+  })
+
+/**
+ * Function to forward the callback URL to the window which started the login in a popup or an iframe.
+ * The message is posted only to the origin of the callback page, so other origins cannot read the OAuth code.
+ *
+ * @returns true if the callback was forwarded, false if the login was started by a full-page redirect
+ */
+export const postCallbackUrl = (url: string) => {
+  const state = new URL(url).searchParams.get('state')
+  if (!state?.startsWith(LOGIN_WINDOW_STATE_PREFIX)) {
+    return false
+  }
+
+  const target = window.opener ?? (window.parent === window ? null : window.parent)
+  if (!target) {
+    return false
+  }
+
+  target.postMessage({ type: CALLBACK_MESSAGE_TYPE, url }, window.location.origin)
+  return true
+}
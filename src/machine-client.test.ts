@@ -0,0 +1,131 @@
+// @vitest-environment node
+import { HttpResponse, http } from 'msw'
+import { setupServer } from 'msw/node'
+
+import { FronteggError } from './frontegg-error'
+import { FronteggMachineClient } from './machine-client'
+import { createJwt } from './test-utils'
+
+const baseUrl = 'http://frontegg-test-instance.local'
+const clientConfig = {
+  baseUrl,
+  clientId: 'test-api-client-id',
+  secret: 'test-api-secret',
+  retry: { retries: 0 },
+}
+
+const TOKEN_CLAIMS = {
+  sub: 'test-api-client-id',
+  tenantId: 'test-tenant-id',
+  type: 'tenantApiToken',
+  roles: ['Integration'],
+  permissions: ['projects.read'],
+}
+
+const server = setupServer()
+server.listen()
+
+describe('machine-client', () => {
+  let currentTime = Date.now()
+  const clock = { now: () => currentTime }
+  let tokenRequests: unknown[] = []
+
+  const useApiTokenResponse = (claims: Record<string, unknown> = TOKEN_CLAIMS) => {
+    server.use(
+      http.post(`${baseUrl}/frontegg/identity/resources/auth/v1/api-token`, async ({ request }) => {
+        tokenRequests.push(await request.json())
+        return HttpResponse.json({
+          accessToken: createJwt({ ...claims, iat: tokenRequests.length }),
+          expiresIn: 3600,
+        })
+      }),
+    )
+  }
+
+  beforeEach(() => {
+    server.resetHandlers()
+    currentTime = Date.now()
+    tokenRequests = []
+  })
+
+  it('exchanges the client credentials for the token data', async () => {
+    useApiTokenResponse()
+    const client = new FronteggMachineClient({ ...clientConfig, clock })
+
+    await expect(client.getTokenData()).resolves.toEqual({
+      clientId: 'test-api-client-id',
+      accessToken: expect.any(String),
+      tenantId: 'test-tenant-id',
+      type: 'tenantApiToken',
+      roles: ['Integration'],
+      permissions: ['projects.read'],
+      metadata: {},
+    })
+    expect(tokenRequests).toEqual([{ clientId: 'test-api-client-id', secret: 'test-api-secret' }])
+  })
+
+  it('caches the token until it is about to expire', async () => {
+    useApiTokenResponse()
+    const client = new FronteggMachineClient({ ...clientConfig, clock })
+
+    const accessToken = await client.getAccessToken()
+    currentTime += 3600 * 1000 - 5 * 60 * 1000
+    await expect(client.getAccessToken()).resolves.toBe(accessToken)
+    expect(tokenRequests).toHaveLength(1)
+
+    currentTime += 1
+    await expect(client.getAccessToken()).resolves.not.toBe(accessToken)
+    expect(tokenRequests).toHaveLength(2)
+  })
+
+  it('fetches the token only once for concurrent callers', async () => {
+    useApiTokenResponse()
+    const client = new FronteggMachineClient({ ...clientConfig, clock })
+
+    const accessTokens = await Promise.all([
+      client.getAccessToken(),
+      client.getAccessToken(),
+      client.getAccessToken({ forceRefresh: true }),
+    ])
+
+    expect(new Set(accessTokens).size).toBe(1)
+    expect(tokenRequests).toHaveLength(1)
+  })
+
+  it('fetches a new token once the token is cleared', async () => {
+    useApiTokenResponse()
+    const client = new FronteggMachineClient({ ...clientConfig, clock })
+    const pendingTokenData = client.getTokenData()
+
+    client.clearToken()
+
+    await expect(pendingTokenData).rejects.toThrowError('Token was cleared.')
+    await client.getTokenData()
+    expect(tokenRequests).toHaveLength(2)
+  })
+
+  it('rejects with FronteggError when the credentials are rejected', async () => {
+    server.use(
+      http.post(
+        `${baseUrl}/frontegg/identity/resources/auth/v1/api-token`,
+        () => new HttpResponse(null, { status: 401 }),
+      ),
+    )
+    const client = new FronteggMachineClient(clientConfig)
+
+    await expect(client.getAccessToken()).rejects.toMatchObject({
+      name: 'FronteggError',
+      kind: 'unauthenticated',
+    })
+  })
+
+  it('rejects with FronteggError when the token does not contain the tenant claims', async () => {
+    useApiTokenResponse({ sub: 'test-api-client-id' })
+    const client = new FronteggMachineClient(clientConfig)
+
+    const error = await client.getTokenData().catch((tokenError: unknown) => tokenError)
+
+    expect(error).toBeInstanceOf(FronteggError)
+    expect(error).toMatchObject({ kind: 'invalidResponse' })
+  })
+})
@@ -0,0 +1,242 @@
+import { z } from 'zod'
+import {
+  type FetchWithAssertOptions,
+  fetchWithAssert,
+  type RetryOptions,
+} from './fetch-with-assert'
+import { FronteggError } from './frontegg-error'
+import { decodeJwt } from './jwt'
+import { createRuntime, type Runtime, type RuntimeOptions } from './runtime'
+import { calculateTokenExpirationTime, isTokenExpired } from './token-expiration'
+
+/**
+ * Default safety margin, the token is assumed to be expired 5 minutes before the actual expiration time.
+ */
+const DEFAULT_TOKEN_EXPIRATION_SKEW_MS = 5 * 60 * 1000
+
+const API_TOKEN_RESPONSE_SCHEMA = z.looseObject({
+  accessToken: z.string(),
+  expiresIn: z.number(),
+})
+
+/**
+ * Claims of the tenant-level token issued for the client credentials.
+ */
+const FRONTEGG_MACHINE_TOKEN_SCHEMA = z.looseObject({
+  sub: z.string().describe('JWT subject claim used for the client id of the credentials'),
+  tenantId: z.string(),
+  type: z.string().optional().describe('Type of the token, e.g. `tenantApiToken`'),
+  roles: z.array(z.string()).optional(),
+  permissions: z.array(z.string()).optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+})
+
+/**
+ * Data of the token issued for the client credentials, the counterpart of `FronteggUserData` without a user.
+ */
+export interface FronteggMachineTokenData {
+  /**
+   * Client id of the credentials the token was issued for.
+   */
+  clientId: string
+  accessToken: string
+  /**
+   * Id of the tenant the credentials belong to.
+   */
+  tenantId: string
+  /**
+   * Type of the token reported by Frontegg, e.g. `tenantApiToken`.
+   */
+  type: string | null
+  /**
+   * Role keys of the credentials, see `hasRole`.
+   */
+  roles: string[]
+  /**
+   * Permission keys of the credentials, see `hasPermission` for wildcard matching.
+   */
+  permissions: string[]
+  /**
+   * Custom metadata of the credentials.
+   */
+  metadata: Record<string, unknown>
+}
+
+export interface FronteggMachineClientConfig extends Pick<RuntimeOptions, 'fetch' | 'clock'> {
+  /**
+   * Base URL of the Frontegg API
+   */
+  baseUrl: string
+  /**
+   * Client id of the API token (client credentials) created in the Frontegg portal or by the tenant admin.
+   */
+  clientId: string
+  /**
+   * Secret of the API token, it must never be exposed to the browser.
+   */
+  secret: string
+  /**
+   * Safety margin in milliseconds, the token is assumed to be expired this long before the actual expiration time.
+   * Defaults to 5 minutes.
+   */
+  tokenExpirationSkewMs?: number
+  /**
+   * Retry of the Frontegg requests failing with network errors, timeouts, 502, 503, 504 or 429.
+   * Defaults to 2 retries with a jittered exponential backoff, `{ retries: 0 }` disables the retry.
+   */
+  retry?: RetryOptions
+  /**
+   * Time in milliseconds to wait for the response of a Frontegg request. Defaults to 10 seconds.
+   */
+  requestTimeoutMs?: number
+}
+
+/**
+ * Function to create the token data from the access token issued for the client credentials.
+ *
+ * @throws ZodError if the token does not contain the tenant-level claims
+ */
+const decodeMachineToken = (accessToken: string): FronteggMachineTokenData => {
+  const claims = FRONTEGG_MACHINE_TOKEN_SCHEMA.parse(decodeJwt(accessToken))
+
+  return {
+    clientId: claims.sub,
+    accessToken,
+    tenantId: claims.tenantId,
+    type: claims.type ?? null,
+    roles: claims.roles ?? [],
+    permissions: claims.permissions ?? [],
+    metadata: claims.metadata ?? {},
+  }
+}
+
+/**
+ * Client authenticating with the client credentials (Frontegg API token) instead of a user,
+ * e.g. in integration workers or test harnesses. It is meant for server-side use only, as it holds the secret.
+ * The token is cached until it is about to expire and concurrent callers share one token request.
+ */
+export class FronteggMachineClient {
+  /**
+   * Data of the cached token, null until the token is fetched.
+   */
+  private tokenData: FronteggMachineTokenData | null = null
+  /**
+   * Time in milliseconds since epoch when the cached token expires.
+   */
+  private tokenExpirationTime: number | null = null
+  /**
+   * Cached promise to allow only one token request at a time.
+   */
+  private tokenDataPromise: Promise<FronteggMachineTokenData> | null = null
+  /**
+   * Aborted when the token is cleared, so requests started before cannot bring the token back.
+   */
+  private tokenAbortController = new AbortController()
+  private readonly baseUrl: string
+  private readonly clientId: string
+  private readonly secret: string
+  private readonly tokenExpirationSkewMs: number
+  private readonly fetchOptions: FetchWithAssertOptions
+  private readonly runtime: Pick<Runtime, 'fetch' | 'clock'>
+
+  constructor(config: FronteggMachineClientConfig) {
+    this.runtime = createRuntime(config)
+    this.baseUrl = config.baseUrl
+    this.clientId = config.clientId
+    this.secret = config.secret
+    this.tokenExpirationSkewMs = config.tokenExpirationSkewMs ?? DEFAULT_TOKEN_EXPIRATION_SKEW_MS
+    this.fetchOptions = {
+      fetch: this.runtime.fetch,
+      retry: config.retry,
+      timeoutMs: config.requestTimeoutMs,
+    }
+  }
+
+  /**
+   * Function to get the data of the token, fetching a new token when there is none or it is about to expire.
+   *
+   * @param options.forceRefresh fetches a new token even when the cached one is still valid
+   * @returns the data of the token, including the access token and its claims
+   * @throws FronteggError if the credentials are rejected or the token cannot be fetched
+   */
+  public async getTokenData({ forceRefresh = false } = {}): Promise<FronteggMachineTokenData> {
+    if (
+      this.tokenData &&
+      !forceRefresh &&
+      !isTokenExpired(this.tokenExpirationTime, this.tokenExpirationSkewMs, this.runtime.clock)
+    ) {
+      return this.tokenData
+    }
+
+    if (!this.tokenDataPromise) {
+      const tokenDataPromise = this.fetchToken().finally(() => {
+        if (this.tokenDataPromise === tokenDataPromise) this.tokenDataPromise = null
+      })
+      this.tokenDataPromise = tokenDataPromise
+    }
+    return await this.tokenDataPromise
+  }
+
+  /**
+   * Function to get the access token, e.g. for the `Authorization` header of the requests to the API.
+   *
+   * @param options.forceRefresh fetches a new token even when the cached one is still valid
+   * @throws FronteggError if the credentials are rejected or the token cannot be fetched
+   */
+  public async getAccessToken(options?: { forceRefresh?: boolean }) {
+    const { accessToken } = await this.getTokenData(options)
+    return accessToken
+  }
+
+  /**
+   * Function to forget the cached token, e.g. when the API rejected it. The next call fetches a new token.
+   */
+  public clearToken() {
+    this.tokenAbortController.abort(new DOMException('Token was cleared.', 'AbortError'))
+    this.tokenAbortController = new AbortController()
+    this.tokenDataPromise = null
+    this.tokenData = null
+    this.tokenExpirationTime = null
+  }
+
+  /**
+   * Function to exchange the client credentials for a tenant-level access token.
+   */
+  private async fetchToken() {
+    const { signal } = this.tokenAbortController
+    const url = `${this.baseUrl}/frontegg/identity/resources/auth/v1/api-token`
+    const response = await fetchWithAssert(
+      url,
+      {
+        method: 'POST',
+        signal,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clientId: this.clientId, secret: this.secret }),
+      },
+      this.fetchOptions,
+    )
+
+    const json: unknown = await response.json()
+    signal.throwIfAborted()
+    try {
+      const data = API_TOKEN_RESPONSE_SCHEMA.parse(json)
+      const tokenData = decodeMachineToken(data.accessToken)
+
+      this.tokenData = tokenData
+      this.tokenExpirationTime = calculateTokenExpirationTime(data.expiresIn, this.runtime.clock)
+      return tokenData
+    } catch (error: unknown) {
+      throw new FronteggError({
+        kind: 'invalidResponse',
+        text: 'Error while parsing Frontegg response.',
+        status: 500,
+        url,
+        fronteggTraceId: response.headers.get('frontegg-trace-id') ?? 'undefined',
+        body: {
+          responseKeys: typeof json === 'object' && json !== null ? Object.keys(json) : undefined,
+          error,
+        },
+      })
+    }
+  }
+}
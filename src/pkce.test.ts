@@ -0,0 +1,53 @@
+import { createCodeChallenge, createCodeVerifier, createRandomString } from './pkce'
+import { createRuntime } from './runtime'
+
+const runtime = createRuntime()
+
+describe('pkce', () => {
+  describe('createRandomString', () => {
+    it('returns a string of the requested length with only unreserved characters', () => {
+      const randomString = createRandomString(runtime, 128)
+
+      expect(randomString).toHaveLength(128)
+      expect(randomString).toMatch(/^[A-Za-z0-9\-_]+$/)
+    })
+
+    it('uses the cryptographically secure random source', () => {
+      const getRandomValuesSpy = vi.spyOn(crypto, 'getRandomValues')
+      const mathRandomSpy = vi.spyOn(Math, 'random')
+
+      createRandomString(runtime)
+
+      expect(getRandomValuesSpy).toHaveBeenCalled()
+      expect(mathRandomSpy).not.toHaveBeenCalled()
+      getRandomValuesSpy.mockRestore()
+      mathRandomSpy.mockRestore()
+    })
+  })
+
+  describe('createCodeChallenge', () => {
+    it('returns the base64url encoded SHA-256 hash of the verifier', async () => {
+      // Example from RFC 7636, Appendix B
+      const challenge = await createCodeChallenge(
+        'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk',
+        runtime,
+      )
+
+      expect(challenge).toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM')
+    })
+  })
+
+  describe('createCodeVerifier', () => {
+    it('creates a spec compliant verifier', () => {
+      const verifier = createCodeVerifier(runtime)
+
+      expect(verifier.length).toBeGreaterThanOrEqual(43)
+      expect(verifier.length).toBeLessThanOrEqual(128)
+      expect(verifier).toMatch(/^[A-Za-z0-9\-_]+$/)
+    })
+
+    it('creates a new verifier for every login attempt', () => {
+      expect(createCodeVerifier(runtime)).not.toBe(createCodeVerifier(runtime))
+    })
+  })
+})
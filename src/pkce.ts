@@ -0,0 +1,54 @@
+import type { Runtime } from './runtime'
+
+/**
+ * Characters allowed in the code verifier by RFC 7636.
+ * The alphabet has exactly 64 characters, so every random byte maps to a character without a modulo bias.
+ */
+const RANDOM_STRING_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_'
+
+/**
+ * Length of the code verifier, RFC 7636 requires between 43 and 128 characters.
+ */
+const CODE_VERIFIER_LENGTH = 64
+
+/**
+ * Function to generate a cryptographically secure random string
+ *
+ * @param runtime.crypto the source of the random values
+ * @param length the length of the generated string
+ * @returns a random string containing only characters allowed in the code verifier
+ */
+export const createRandomString = ({ crypto }: Pick<Runtime, 'crypto'>, length = 32) => {
+  const randomValues = crypto.getRandomValues(new Uint8Array(length))
+  let text = ''
+  for (const randomValue of randomValues) {
+    text += RANDOM_STRING_ALPHABET.charAt(randomValue % RANDOM_STRING_ALPHABET.length)
+  }
+  return text
+}
+
+/**
+ * Function to create the code challenge sent to the authorization endpoint from the code verifier.
+ *
+ * @returns a base64url encoded SHA-256 hash of the code verifier
+ */
+export const createCodeChallenge = async (
+  codeVerifier: string,
+  { crypto }: Pick<Runtime, 'crypto'>,
+) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier))
+  return btoa(String.fromCharCode(...new Uint8Array(digest)))
+    .replace(/=/g, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+}
+
+/**
+ * Function to generate a new code verifier for the login attempt.
+ * It is stored in the login transaction, so the same verifier is sent when the OAuth code is exchanged
+ * and Frontegg can check that it matches the `code_challenge` of the login URL.
+ *
+ * @returns a code verifier string
+ */
+export const createCodeVerifier = (runtime: Pick<Runtime, 'crypto'>) =>
+  createRandomString(runtime, CODE_VERIFIER_LENGTH)
@@ -0,0 +1,289 @@
+import { act, render, renderHook, screen, waitFor } from '@testing-library/react'
+import { HttpResponse, http } from 'msw'
+import { setupServer } from 'msw/node'
+import { type ReactNode, StrictMode } from 'react'
+
+import { FronteggOAuthClient } from './frontegg-oauth-client'
+import {
+  FronteggAuthCallback,
+  FronteggAuthProvider,
+  RequireAuth,
+  useAccessToken,
+  useFronteggClient,
+  useFronteggUser,
+} from './react'
+import { createJwt } from './test-utils'
+
+const baseUrl = 'http://frontegg-test-instance.local'
+const clientConfig = {
+  baseUrl,
+  clientId: 'test-client-id',
+  redirectUri: 'http://localhost:3000/oauth/callback',
+  logoutRedirectUri: 'http://localhost:3000',
+  codeVerifierPersistDelayMs: 0,
+}
+
+const ACCESS_TOKEN_CLAIMS = {
+  sub: 'test-user-id',
+  email: 'test@lokalise.com',
+  name: 'dummy username',
+  tenantId: 'test-tenant-id',
+}
+
+const ID_TOKEN_CLAIMS = {
+  iss: baseUrl,
+  sub: 'test-user-id',
+  aud: clientConfig.clientId,
+  iat: 1700000000,
+  exp: 4102444800,
+}
+
+const createTokenResponse = (accessTokenClaims: Record<string, unknown> = {}, nonce?: string) => ({
+  token_type: 'Bearer',
+  access_token: createJwt({ ...ACCESS_TOKEN_CLAIMS, ...accessTokenClaims }),
+  id_token: createJwt({ ...ID_TOKEN_CLAIMS, nonce }),
+  refresh_token: 'test-refresh-token',
+  expires_in: 3600,
+})
+
+const server = setupServer()
+server.listen()
+
+describe('react', () => {
+  const createWrapper =
+    (client: FronteggOAuthClient) =>
+    ({ children }: { children: ReactNode }) => (
+      <FronteggAuthProvider client={client}>{children}</FronteggAuthProvider>
+    )
+
+  beforeEach(() => {
+    server.resetHandlers()
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    window.history.replaceState(null, '', '/')
+  })
+
+  describe('useFronteggClient', () => {
+    it('throws an error outside of the provider', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+      expect(() => renderHook(() => useFronteggClient())).toThrowError(
+        'useFronteggClient has to be used within FronteggAuthProvider.',
+      )
+      vi.restoreAllMocks()
+    })
+  })
+
+  describe('useFronteggUser', () => {
+    it('returns the user data once it is fetched', async () => {
+      server.use(
+        http.post(`${baseUrl}/frontegg/oauth/authorize/silent`, () =>
+          HttpResponse.json(createTokenResponse()),
+        ),
+      )
+      const client = new FronteggOAuthClient(clientConfig)
+
+      const { result } = renderHook(() => useFronteggUser(), { wrapper: createWrapper(client) })
+
+      expect(result.current).toEqual({ status: 'loading' })
+      await waitFor(() =>
+        expect(result.current).toMatchObject({
+          status: 'authenticated',
+          userData: { externalUserId: 'test-user-id' },
+        }),
+      )
+    })
+
+    it('returns the unauthenticated state when Frontegg responds with 401', async () => {
+      server.use(
+        http.post(
+          `${baseUrl}/frontegg/oauth/authorize/silent`,
+          () => new HttpResponse(null, { status: 401 }),
+        ),
+      )
+      const client = new FronteggOAuthClient(clientConfig)
+
+      const { result } = renderHook(() => useFronteggUser(), { wrapper: createWrapper(client) })
+
+      await waitFor(() => expect(result.current).toEqual({ status: 'unauthenticated' }))
+    })
+
+    it('returns the error state when the user data cannot be fetched', async () => {
+      server.use(
+        http.post(
+          `${baseUrl}/frontegg/oauth/authorize/silent`,
+          () => new HttpResponse(null, { status: 400 }),
+        ),
+      )
+      const client = new FronteggOAuthClient(clientConfig)
+
+      const { result } = renderHook(() => useFronteggUser(), { wrapper: createWrapper(client) })
+
+      await waitFor(() => expect(result.current).toMatchObject({ status: 'error' }))
+    })
+
+    it('returns the unauthenticated state once the session is cleared', async () => {
+      server.use(
+        http.post(`${baseUrl}/frontegg/oauth/authorize/silent`, () =>
+          HttpResponse.json(createTokenResponse()),
+        ),
+      )
+      const client = new FronteggOAuthClient(clientConfig)
+      const { result } = renderHook(() => useFronteggUser(), { wrapper: createWrapper(client) })
+      await waitFor(() => expect(result.current.status).toBe('authenticated'))
+
+      act(() => client.clearSession())
+
+      expect(result.current).toEqual({ status: 'unauthenticated' })
+    })
+  })
+
+  describe('useAccessToken', () => {
+    it('re-renders with the refreshed access token', async () => {
+      const refreshedResponse = createTokenResponse({ roles: ['Admin'] })
+      server.use(
+        http.post(`${baseUrl}/frontegg/oauth/authorize/silent`, () =>
+          HttpResponse.json(createTokenResponse()),
+        ),
+        http.post(`${baseUrl}/frontegg/oauth/token`, () => HttpResponse.json(refreshedResponse)),
+      )
+      const client = new FronteggOAuthClient(clientConfig)
+      const { result } = renderHook(() => useAccessToken(), { wrapper: createWrapper(client) })
+      await waitFor(() => expect(result.current).toBe(createTokenResponse().access_token))
+
+      await act(() => client.getUserData({ forceRefresh: true }))
+
+      expect(result.current).toBe(refreshedResponse.access_token)
+    })
+  })
+
+  describe('RequireAuth', () => {
+    it('renders the children for an authenticated user', async () => {
+      server.use(
+        http.post(`${baseUrl}/frontegg/oauth/authorize/silent`, () =>
+          HttpResponse.json(createTokenResponse()),
+        ),
+      )
+      const client = new FronteggOAuthClient(clientConfig)
+
+      render(
+        <FronteggAuthProvider client={client}>
+          <RequireAuth fallback="Loading">Projects</RequireAuth>
+        </FronteggAuthProvider>,
+      )
+
+      expect(screen.getByText('Loading')).toBeDefined()
+      expect(await screen.findByText('Projects')).toBeDefined()
+    })
+
+    it('redirects an unauthenticated user to the login page', async () => {
+      const assign = vi.fn()
+      vi.stubGlobal('location', { ...window.location, pathname: '/projects', search: '', assign })
+      server.use(
+        http.post(
+          `${baseUrl}/frontegg/oauth/authorize/silent`,
+          () => new HttpResponse(null, { status: 401 }),
+        ),
+      )
+      const client = new FronteggOAuthClient(clientConfig)
+
+      render(
+        <FronteggAuthProvider client={client}>
+          <RequireAuth fallback="Loading" loginOptions={{ loginHint: 'test@lokalise.com' }}>
+            Projects
+          </RequireAuth>
+        </FronteggAuthProvider>,
+      )
+
+      await waitFor(() => expect(assign).toHaveBeenCalledOnce())
+      const loginUrl: URL = assign.mock.calls[0][0]
+      expect(loginUrl.pathname).toBe('/frontegg/oauth/authorize')
+      expect(loginUrl.searchParams.get('login_hint')).toBe('test@lokalise.com')
+      expect(
+        JSON.parse(
+          localStorage.getItem(
+            `frontegg-oauth-client:login-transaction:${clientConfig.clientId}@${baseUrl}:${loginUrl.searchParams.get('state')}`,
+          )!,
+        ),
+      ).toMatchObject({ returnTo: '/projects' })
+      expect(screen.getByText('Loading')).toBeDefined()
+    })
+
+    it('redirects to the login page when the silent login fallback fails', async () => {
+      const assign = vi.fn()
+      vi.stubGlobal('location', { ...window.location, pathname: '/projects', search: '', assign })
+      server.use(
+        http.post(
+          `${baseUrl}/frontegg/oauth/authorize/silent`,
+          () => new HttpResponse(null, { status: 401 }),
+        ),
+      )
+      const client = new FronteggOAuthClient({ ...clientConfig, silentLoginFallback: true })
+
+      render(
+        <FronteggAuthProvider client={client}>
+          <RequireAuth fallback="Loading">Projects</RequireAuth>
+        </FronteggAuthProvider>,
+      )
+
+      const iframe = await waitFor(() => {
+        const element = document.querySelector('iframe')
+        expect(element?.src).toContain(baseUrl)
+        return element!
+      })
+      const state = new URL(iframe.src).searchParams.get('state')!
+      window.dispatchEvent(
+        new MessageEvent('message', {
+          origin: new URL(clientConfig.redirectUri).origin,
+          source: iframe.contentWindow,
+          data: {
+            type: 'frontegg-oauth-client:callback',
+            url: `${clientConfig.redirectUri}?error=login_required&state=${state}`,
+          },
+        }),
+      )
+
+      await waitFor(() => expect(assign).toHaveBeenCalledOnce())
+      expect(screen.getByText('Loading')).toBeDefined()
+    })
+  })
+
+  describe('FronteggAuthCallback', () => {
+    it('completes the login once, even in the strict mode', async () => {
+      const client = new FronteggOAuthClient(clientConfig)
+      const loginUrl = await client.getOAuthLoginUrl({ returnTo: '/projects' })
+      const nonce = loginUrl.searchParams.get('nonce')!
+      const tokenRequests = vi.fn()
+      server.use(
+        http.post(`${baseUrl}/frontegg/oauth/token`, () => {
+          tokenRequests()
+          return HttpResponse.json(createTokenResponse({}, nonce))
+        }),
+      )
+      window.history.replaceState(
+        null,
+        '',
+        `/oauth/callback?code=test-oauth-code&state=${loginUrl.searchParams.get('state')}`,
+      )
+      const onSuccess = vi.fn()
+
+      render(
+        <StrictMode>
+          <FronteggAuthProvider client={client}>
+            <FronteggAuthCallback fallback="Logging in" onSuccess={onSuccess} />
+          </FronteggAuthProvider>
+        </StrictMode>,
+      )
+
+      expect(screen.getByText('Logging in')).toBeDefined()
+      await waitFor(() =>
+        expect(onSuccess).toHaveBeenCalledWith(expect.objectContaining({ returnTo: '/projects' })),
+      )
+      expect(onSuccess).toHaveBeenCalledOnce()
+      expect(tokenRequests).toHaveBeenCalledOnce()
+    })
+  })
+})
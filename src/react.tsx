@@ -0,0 +1,172 @@
+import {
+  createContext,
+  type ReactNode,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react'
+import type { FronteggUserData } from './access-token'
+import type {
+  FronteggAuthState,
+  FronteggLoginOptions,
+  FronteggOAuthClient,
+} from './frontegg-oauth-client'
+
+export type { FronteggAuthState } from './frontegg-oauth-client'
+
+const FronteggAuthContext = createContext<FronteggOAuthClient | null>(null)
+
+/**
+ * Provides the client to the hooks and the components of this module.
+ * The client should be created once per application, outside of the component tree.
+ */
+export const FronteggAuthProvider = ({
+  client,
+  children,
+}: {
+  client: FronteggOAuthClient
+  children: ReactNode
+}) => <FronteggAuthContext.Provider value={client}>{children}</FronteggAuthContext.Provider>
+
+/**
+ * Returns the client of the closest `FronteggAuthProvider`.
+ *
+ * @throws Error if there is no `FronteggAuthProvider` above the component
+ */
+export const useFronteggClient = () => {
+  const client = useContext(FronteggAuthContext)
+  if (!client) {
+    throw new Error('useFronteggClient has to be used within FronteggAuthProvider.')
+  }
+  return client
+}
+
+/**
+ * Returns the authentication state of the client and starts fetching the user data with `getUserData`.
+ * The component is re-rendered when the tokens are refreshed or the session is cleared, including in other tabs.
+ */
+export const useFronteggUser = (): FronteggAuthState => {
+  const client = useFronteggClient()
+  const state = useSyncExternalStore(client.subscribe, client.getState, client.getState)
+
+  useEffect(() => {
+    client.getUserData().catch(() => {
+      // The failure is reflected in the state
+    })
+  }, [client])
+
+  return state
+}
+
+/**
+ * Returns the current access token, or null if the user is not authenticated (yet).
+ * The component is re-rendered with the new token when it is refreshed.
+ */
+export const useAccessToken = () => {
+  const state = useFronteggUser()
+  return state.status === 'authenticated' ? state.userData.accessToken : null
+}
+
+/**
+ * Renders the children only for authenticated users, unauthenticated users are redirected to the login page.
+ * Errors other than 401 are thrown to the closest error boundary.
+ *
+ * @param props.fallback rendered while the user data is loaded and during the redirect
+ * @param props.loginOptions options of the login URL, the user is returned to the current page by default
+ */
+export const RequireAuth = ({
+  children,
+  fallback = null,
+  loginOptions,
+}: {
+  children: ReactNode
+  fallback?: ReactNode
+  loginOptions?: FronteggLoginOptions
+}) => {
+  const client = useFronteggClient()
+  const state = useFronteggUser()
+  const isUnauthenticated = state.status === 'unauthenticated'
+  const [redirectError, setRedirectError] = useState<unknown>(null)
+  // Options are read only when the redirect starts, so inline objects do not restart it
+  const loginOptionsRef = useRef(loginOptions)
+  loginOptionsRef.current = loginOptions
+
+  useEffect(() => {
+    if (!isUnauthenticated) {
+      return
+    }
+
+    let isActive = true
+    client
+      .getOAuthLoginUrl({
+        returnTo: `${window.location.pathname}${window.location.search}`,
+        ...loginOptionsRef.current,
+      })
+      .then(
+        (loginUrl) => {
+          if (isActive) window.location.assign(loginUrl)
+        },
+        (error: unknown) => setRedirectError(error),
+      )
+
+    return () => {
+      isActive = false
+    }
+  }, [client, isUnauthenticated])
+
+  if (state.status === 'error') {
+    throw state.error
+  }
+  if (redirectError) {
+    throw redirectError
+  }
+
+  return state.status === 'authenticated' ? children : fallback
+}
+
+/**
+ * Completes the login on the OAuth callback route with `handleRedirectCallback`,
+ * or forwards the callback when the login was started by `loginWithPopup` or `loginSilently`.
+ * Failed callbacks are thrown to the closest error boundary.
+ *
+ * @param props.fallback rendered while the OAuth code is exchanged
+ * @param props.onSuccess navigates to the return-to path, defaults to replacing the current page
+ */
+export const FronteggAuthCallback = ({
+  fallback = null,
+  onSuccess = ({ returnTo }) => window.location.replace(returnTo),
+}: {
+  fallback?: ReactNode
+  onSuccess?: (result: { userData: FronteggUserData; returnTo: string }) => void
+}) => {
+  const client = useFronteggClient()
+  const [error, setError] = useState<unknown>(null)
+  // The callback can be completed only once, effects run twice in the strict mode
+  const isHandledRef = useRef(false)
+  const onSuccessRef = useRef(onSuccess)
+  onSuccessRef.current = onSuccess
+
+  useEffect(() => {
+    if (isHandledRef.current) {
+      return
+    }
+    isHandledRef.current = true
+
+    if (client.handleWindowCallback()) {
+      return
+    }
+
+    client.handleRedirectCallback(window.location.href).then(
+      (result) => onSuccessRef.current(result),
+      (callbackError: unknown) => setError(callbackError),
+    )
+  }, [client])
+
+  if (error) {
+    throw error
+  }
+
+  return fallback
+}
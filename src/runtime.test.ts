@@ -0,0 +1,45 @@
+import { createRuntime, FronteggConfigurationError } from './runtime'
+import { InMemoryTokenStorage } from './token-storage'
+
+describe('runtime', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('uses the injected dependencies', async () => {
+    const fetch = vi.fn(() => Promise.resolve(new Response('ok')))
+    const clock = { now: () => 1700000000000 }
+    const loginStorage = new InMemoryTokenStorage()
+
+    const runtime = createRuntime({ fetch, clock, crypto, loginStorage })
+
+    await expect(runtime.fetch('http://localhost/test')).resolves.toBeInstanceOf(Response)
+    expect(fetch).toHaveBeenCalledWith('http://localhost/test', undefined)
+    expect(runtime.clock.now()).toBe(1700000000000)
+    expect(runtime.loginStorage).toBe(loginStorage)
+  })
+
+  it('throws a configuration error when the global fetch is missing', () => {
+    vi.stubGlobal('fetch', undefined)
+
+    expect(() => createRuntime()).toThrowError(
+      new FronteggConfigurationError(
+        'The global "fetch" is not available in this runtime, pass the "fetch" option to the client.',
+      ),
+    )
+  })
+
+  it('throws a configuration error once the missing globals are used', () => {
+    vi.stubGlobal('crypto', undefined)
+    vi.stubGlobal('localStorage', undefined)
+
+    const runtime = createRuntime()
+
+    expect(() => runtime.crypto).toThrowError(
+      'The global "crypto" is not available in this runtime, pass the "crypto" option to the client.',
+    )
+    expect(() => runtime.loginStorage).toThrowError(
+      'The global "localStorage" is not available in this runtime, pass the "loginStorage" option to the client.',
+    )
+  })
+})
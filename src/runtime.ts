@@ -0,0 +1,113 @@
+import type { TokenStorage } from './token-storage'
+
+/**
+ * Source of the current time, allows controlling the time without fake timers.
+ */
+export interface Clock {
+  /**
+   * Returns the current time in milliseconds since epoch.
+   */
+  now(): number
+}
+
+/**
+ * Provider of the cryptographically secure random values and the WebCrypto API.
+ */
+export type CryptoProvider = Pick<Crypto, 'getRandomValues' | 'subtle'>
+
+/**
+ * Platform dependencies of the client, replacing the browser globals in other runtimes.
+ */
+export interface RuntimeOptions {
+  /**
+   * Fetch function used for the Frontegg requests. Defaults to the global `fetch`.
+   */
+  fetch?: typeof fetch
+  /**
+   * Defaults to `Date`.
+   */
+  clock?: Clock
+  /**
+   * Defaults to the global `crypto`.
+   */
+  crypto?: CryptoProvider
+  /**
+   * Storage of the data of an unfinished login (the PKCE code verifier, the state and the nonce),
+   * which has to survive the redirect to the Frontegg login page. Defaults to `localStorage`.
+   */
+  loginStorage?: TokenStorage
+}
+
+/**
+ * Resolved platform dependencies of the client.
+ */
+export interface Runtime {
+  fetch: typeof fetch
+  clock: Clock
+  readonly crypto: CryptoProvider
+  readonly loginStorage: TokenStorage
+}
+
+/**
+ * Error thrown when the runtime does not provide a global required by the client and it is not injected either.
+ */
+export class FronteggConfigurationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FronteggConfigurationError'
+  }
+}
+
+const createMissingGlobalError = (global: string, option: keyof RuntimeOptions) =>
+  new FronteggConfigurationError(
+    `The global "${global}" is not available in this runtime, pass the "${option}" option to the client.`,
+  )
+
+/**
+ * Storage of the login data in `localStorage`.
+ * Unlike `LocalStorageTokenStorage`, storage errors are not swallowed, as the login cannot be completed without the data.
+ */
+const createLocalStorageLoginStorage = (): TokenStorage => ({
+  get: (key) => localStorage.getItem(key),
+  set: (key, value) => localStorage.setItem(key, value),
+  remove: (key) => localStorage.removeItem(key),
+})
+
+/**
+ * Function to resolve the platform dependencies from the options, falling back to the globals.
+ * The global `fetch` is required right away, `crypto` and `localStorage` are required only once they are used,
+ * so e.g. a service worker which never starts the login does not need to provide them.
+ *
+ * @throws FronteggConfigurationError if the global `fetch` is missing and it is not injected
+ */
+export const createRuntime = (options: RuntimeOptions = {}): Runtime => {
+  const injectedFetch = options.fetch
+  if (!injectedFetch && typeof fetch === 'undefined') {
+    throw createMissingGlobalError('fetch', 'fetch')
+  }
+
+  let loginStorage = options.loginStorage
+
+  return {
+    // The global fetch is looked up on every call, as it can be replaced (e.g. by request mocking),
+    // and it throws "Illegal invocation" when it is called as a method of another object
+    fetch: (input, init) => (injectedFetch ? injectedFetch(input, init) : fetch(input, init)),
+    clock: options.clock ?? { now: () => Date.now() },
+    get crypto() {
+      const cryptoProvider = options.crypto ?? (typeof crypto === 'undefined' ? undefined : crypto)
+      if (!cryptoProvider?.subtle) {
+        throw createMissingGlobalError('crypto', 'crypto')
+      }
+      return cryptoProvider
+    },
+    get loginStorage() {
+      if (!loginStorage) {
+        if (typeof localStorage === 'undefined') {
+          throw createMissingGlobalError('localStorage', 'loginStorage')
+        }
+        loginStorage = createLocalStorageLoginStorage()
+      }
+      return loginStorage
+    },
+  }
+}
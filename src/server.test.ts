@@ -0,0 +1,127 @@
+// @vitest-environment node
+import { HttpResponse, http } from 'msw'
+import { setupServer } from 'msw/node'
+
+import { verifyAccessToken } from './server'
+
+const baseUrl = 'http://frontegg-test-instance.local'
+const audience = 'test-client-id'
+
+const encode = (value: string) =>
+  btoa(value).replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_')
+
+const now = () => Math.floor(Date.now() / 1000)
+
+const CLAIMS = {
+  iss: baseUrl,
+  aud: audience,
+  sub: 'test-user-id',
+  email: 'test@lokalise.com',
+  name: 'dummy username',
+  tenantId: 'test-tenant-id',
+  roles: ['Admin'],
+}
+
+const server = setupServer()
+server.listen()
+
+describe('server', () => {
+  let privateKey: CryptoKey
+  let jwksRequests = 0
+
+  const signJwt = async (payload: Record<string, unknown>) => {
+    const signingInput = `${encode(JSON.stringify({ alg: 'RS256', kid: 'test-key' }))}.${encode(JSON.stringify(payload))}`
+    const signature = await crypto.subtle.sign(
+      'RSASSA-PKCS1-v1_5',
+      privateKey,
+      new TextEncoder().encode(signingInput),
+    )
+    return `${signingInput}.${encode(String.fromCharCode(...new Uint8Array(signature)))}`
+  }
+
+  beforeAll(async () => {
+    const keyPair = await crypto.subtle.generateKey(
+      {
+        name: 'RSASSA-PKCS1-v1_5',
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: 'SHA-256',
+      },
+      true,
+      ['sign', 'verify'],
+    )
+    privateKey = keyPair.privateKey
+    const jwk = { ...(await crypto.subtle.exportKey('jwk', keyPair.publicKey)), kid: 'test-key' }
+
+    server.use(
+      http.get(`${baseUrl}/.well-known/jwks.json`, () => {
+        jwksRequests++
+        return HttpResponse.json({ keys: [jwk] })
+      }),
+    )
+  })
+
+  describe('verifyAccessToken', () => {
+    it('returns the user data of a valid token', async () => {
+      const accessToken = await signJwt({ ...CLAIMS, exp: now() + 3600 })
+
+      await expect(verifyAccessToken(accessToken, { baseUrl, audience })).resolves.toEqual({
+        externalUserId: 'test-user-id',
+        accessToken,
+        email: 'test@lokalise.com',
+        name: 'dummy username',
+        profilePictureUrl: undefined,
+        externalWorkspaceId: 'test-tenant-id',
+        isImpersonated: false,
+        impersonation: null,
+        roles: ['Admin'],
+        permissions: [],
+        tenantIds: ['test-tenant-id'],
+        metadata: {},
+        authenticatedAt: null,
+        authenticationMethods: [],
+      })
+    })
+
+    it('caches the key set between verifications', async () => {
+      const requestsBefore = jwksRequests
+
+      await verifyAccessToken(await signJwt({ ...CLAIMS, exp: now() + 3600 }), {
+        baseUrl,
+        audience,
+      })
+      await verifyAccessToken(await signJwt({ ...CLAIMS, exp: now() + 3600 }), {
+        baseUrl,
+        audience,
+      })
+
+      expect(jwksRequests - requestsBefore).toBeLessThanOrEqual(1)
+    })
+
+    it('rejects a token issued for another audience', async () => {
+      const accessToken = await signJwt({ ...CLAIMS, aud: 'other-client-id', exp: now() + 3600 })
+
+      await expect(verifyAccessToken(accessToken, { baseUrl, audience })).rejects.toMatchObject({
+        name: 'FronteggTokenVerificationError',
+        reason: 'invalidAudience',
+      })
+    })
+
+    it('tolerates the configured clock difference', async () => {
+      const accessToken = await signJwt({ ...CLAIMS, exp: now() - 30 })
+
+      await expect(
+        verifyAccessToken(accessToken, { baseUrl, audience, clockToleranceSeconds: 0 }),
+      ).rejects.toMatchObject({ reason: 'expired' })
+      await expect(verifyAccessToken(accessToken, { baseUrl, audience })).resolves.toBeDefined()
+    })
+
+    it('rejects a token without the Frontegg user claims', async () => {
+      const accessToken = await signJwt({ iss: baseUrl, aud: audience, exp: now() + 3600 })
+
+      await expect(verifyAccessToken(accessToken, { baseUrl, audience })).rejects.toMatchObject({
+        reason: 'malformed',
+      })
+    })
+  })
+})
@@ -0,0 +1,72 @@
+import { createUserData, type FronteggUserData } from './access-token'
+import { FronteggTokenVerificationError, JwksVerifier } from './jwks'
+
+export type {
+  FronteggDecodedToken,
+  FronteggImpersonation,
+  FronteggUserData,
+} from './access-token'
+export { hasAllPermissions, hasPermission, hasRole } from './authorization'
+export { FronteggError, type FronteggErrorKind } from './frontegg-error'
+export { FronteggTokenVerificationError, type FronteggTokenVerificationErrorReason } from './jwks'
+export {
+  FronteggMachineClient,
+  type FronteggMachineClientConfig,
+  type FronteggMachineTokenData,
+} from './machine-client'
+
+export interface VerifyAccessTokenOptions {
+  /**
+   * Base URL of the Frontegg API, the key set is fetched from it and it is expected as the token issuer.
+   */
+  baseUrl: string
+  /**
+   * Expected audience of the token, usually the client id of the application.
+   */
+  audience: string
+  /**
+   * Tolerance for the clock difference between the server and Frontegg. Defaults to 60 seconds.
+   */
+  clockToleranceSeconds?: number
+}
+
+/**
+ * Verifiers cached by the base URL, so the key set is fetched only once per Frontegg instance.
+ */
+const jwksVerifiers = new Map<string, JwksVerifier>()
+
+const getJwksVerifier = (baseUrl: string) => {
+  let verifier = jwksVerifiers.get(baseUrl)
+  if (!verifier) {
+    verifier = new JwksVerifier({ baseUrl })
+    jwksVerifiers.set(baseUrl, verifier)
+  }
+  return verifier
+}
+
+/**
+ * Function to verify the access token received from the browser client, e.g. in the `Authorization` header.
+ * The RS256 signature is verified against the key set published by Frontegg and the `exp`, `nbf`, `iss`
+ * and `aud` claims are checked.
+ *
+ * @returns the user data in the same shape as `FronteggOAuthClient.getUserData`
+ * @throws FronteggTokenVerificationError if the token cannot be verified
+ */
+export const verifyAccessToken = async (
+  accessToken: string,
+  options: VerifyAccessTokenOptions,
+): Promise<FronteggUserData> => {
+  const payload = await getJwksVerifier(options.baseUrl).verify(accessToken, {
+    audience: options.audience,
+    clockToleranceSeconds: options.clockToleranceSeconds,
+  })
+
+  try {
+    return createUserData(accessToken, payload)
+  } catch {
+    throw new FronteggTokenVerificationError(
+      'malformed',
+      'Token does not contain the Frontegg user claims.',
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { FronteggSessionSnapshotError, parseSessionSnapshot } from './session-snapshot'
+import { createJwt } from './test-utils'
+
+const ACCESS_TOKEN = createJwt({
+  sub: 'test-user-id',
+  email: 'test@lokalise.com',
+  name: 'dummy username',
+  tenantId: 'test-tenant-id',
+})
+
+const clock = { now: () => 1700000000000 }
+
+const SNAPSHOT = {
+  version: 1,
+  accessToken: ACCESS_TOKEN,
+  refreshToken: 'test-refresh-token',
+  tokenExpirationTime: clock.now() + 3600 * 1000,
+  idToken: createJwt({
+    iss: 'http://frontegg-test-instance.local',
+    sub: 'test-user-id',
+    aud: 'test-client-id',
+    iat: 1700000000,
+    exp: 1700003600,
+  }),
+}
+
+describe('session-snapshot', () => {
+  it('returns a valid snapshot', () => {
+    expect(parseSessionSnapshot(SNAPSHOT, clock)).toEqual(SNAPSHOT)
+  })
+
+  it('migrates the unversioned snapshot of the constructor options', () => {
+    const snapshot = {
+      userData: { accessToken: ACCESS_TOKEN, externalUserId: 'test-user-id' },
+      refreshToken: 'test-refresh-token',
+      tokenExpirationTime: SNAPSHOT.tokenExpirationTime,
+    }
+
+    expect(parseSessionSnapshot(snapshot, clock)).toEqual({
+      version: 1,
+      accessToken: ACCESS_TOKEN,
+      refreshToken: 'test-refresh-token',
+      tokenExpirationTime: SNAPSHOT.tokenExpirationTime,
+    })
+  })
+
+  it.each([
+    ['a snapshot which is not an object', 'test-snapshot'],
+    ['a snapshot without the refresh token', { ...SNAPSHOT, refreshToken: undefined }],
+    ['a snapshot with an invalid access token', { ...SNAPSHOT, accessToken: 'test-access-token' }],
+    ['a snapshot with an invalid ID token', { ...SNAPSHOT, idToken: 'test-id-token' }],
+    ['an invalid unversioned snapshot', { userData: null }],
+  ])('rejects %s as malformed', (_, snapshot) => {
+    expect(() => parseSessionSnapshot(snapshot, clock)).toThrowError(
+      expect.objectContaining({ name: 'FronteggSessionSnapshotError', reason: 'malformed' }),
+    )
+  })
+
+  it('rejects a snapshot of a newer version', () => {
+    expect(() => parseSessionSnapshot({ ...SNAPSHOT, version: 2 }, clock)).toThrowError(
+      new FronteggSessionSnapshotError(
+        'unsupportedVersion',
+        'Session snapshot version 2 is not supported.',
+      ),
+    )
+  })
+
+  it('rejects an expired snapshot', () => {
+    expect(() =>
+      parseSessionSnapshot({ ...SNAPSHOT, tokenExpirationTime: clock.now() }, clock),
+    ).toThrowError(expect.objectContaining({ reason: 'expired' }))
+  })
+})
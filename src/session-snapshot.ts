@@ -0,0 +1,152 @@
+import { z } from 'zod'
+import { decodeAccessToken } from './access-token'
+import { parseIdTokenClaims } from './id-token'
+import type { Clock } from './runtime'
+import { STORED_SESSION_SCHEMA } from './token-storage'
+
+/**
+ * Version of the snapshots created by `exportSession`.
+ * Increase it together with adding a migration whenever the snapshot schema changes.
+ */
+const SESSION_SNAPSHOT_VERSION = 1
+
+const SESSION_SNAPSHOT_SCHEMA = STORED_SESSION_SCHEMA.extend({
+  version: z.literal(SESSION_SNAPSHOT_VERSION),
+})
+
+/**
+ * Serializable snapshot of the session, created by `exportSession` and restored by `FronteggOAuthClient.fromSession`.
+ */
+export type FronteggSessionSnapshot = z.infer<typeof SESSION_SNAPSHOT_SCHEMA>
+
+/**
+ * Session passed to the client by the `userData`, `refreshToken` and `tokenExpirationTime` config options,
+ * accepted as the unversioned snapshot.
+ */
+const LEGACY_SESSION_SNAPSHOT_SCHEMA = z.object({
+  userData: z.looseObject({ accessToken: z.string() }),
+  refreshToken: z.string(),
+  tokenExpirationTime: z.number(),
+})
+
+/**
+ * Migrations of the snapshot from the version of the key to the next version.
+ */
+const SESSION_SNAPSHOT_MIGRATIONS: Record<number, (snapshot: object) => object> = {
+  0: (snapshot) => {
+    const { userData, refreshToken, tokenExpirationTime } =
+      LEGACY_SESSION_SNAPSHOT_SCHEMA.parse(snapshot)
+    return { version: 1, accessToken: userData.accessToken, refreshToken, tokenExpirationTime }
+  },
+}
+
+/**
+ * Reason why the snapshot was rejected:
+ * - `malformed` - the snapshot does not match the schema of its version or its tokens cannot be decoded
+ * - `unsupportedVersion` - the snapshot was created by a newer version of the client
+ * - `expired` - the access token of the snapshot is expired
+ */
+export type FronteggSessionSnapshotErrorReason = 'malformed' | 'unsupportedVersion' | 'expired'
+
+/**
+ * Error thrown when the session snapshot cannot be restored.
+ */
+export class FronteggSessionSnapshotError extends Error {
+  reason: FronteggSessionSnapshotErrorReason
+
+  constructor(reason: FronteggSessionSnapshotErrorReason, message: string) {
+    super(message)
+    this.name = 'FronteggSessionSnapshotError'
+
+    this.reason = reason
+  }
+}
+
+/**
+ * Function to create the snapshot of the current version from the session.
+ */
+export const createSessionSnapshot = (session: {
+  accessToken: string
+  refreshToken: string
+  tokenExpirationTime: number
+  idToken: string | null
+}): FronteggSessionSnapshot => ({
+  version: SESSION_SNAPSHOT_VERSION,
+  accessToken: session.accessToken,
+  refreshToken: session.refreshToken,
+  tokenExpirationTime: session.tokenExpirationTime,
+  ...(session.idToken ? { idToken: session.idToken } : {}),
+})
+
+/**
+ * Function to migrate the snapshot of an older version to the current version.
+ *
+ * @throws FronteggSessionSnapshotError if the version is not supported or the snapshot cannot be migrated
+ */
+const migrateSessionSnapshot = (snapshot: object) => {
+  let version = 'version' in snapshot ? snapshot.version : 0
+  if (typeof version !== 'number' || version > SESSION_SNAPSHOT_VERSION) {
+    throw new FronteggSessionSnapshotError(
+      'unsupportedVersion',
+      `Session snapshot version ${String(version)} is not supported.`,
+    )
+  }
+
+  let migratedSnapshot = snapshot
+  while (version < SESSION_SNAPSHOT_VERSION) {
+    const migrate = SESSION_SNAPSHOT_MIGRATIONS[version]
+    try {
+      migratedSnapshot = migrate(migratedSnapshot)
+    } catch {
+      throw new FronteggSessionSnapshotError(
+        'malformed',
+        `Session snapshot of version ${version} is not valid.`,
+      )
+    }
+    version++
+  }
+  return migratedSnapshot
+}
+
+/**
+ * Function to validate the snapshot and migrate it to the current version.
+ *
+ * @param snapshot snapshot created by `exportSession` of this or an older version of the client
+ * @param clock source of the current time
+ * @returns the snapshot of the current version
+ * @throws FronteggSessionSnapshotError if the snapshot is malformed, of an unsupported version or expired
+ */
+export const parseSessionSnapshot = (snapshot: unknown, clock: Clock): FronteggSessionSnapshot => {
+  if (typeof snapshot !== 'object' || snapshot === null) {
+    throw new FronteggSessionSnapshotError('malformed', 'Session snapshot is not an object.')
+  }
+
+  const result = SESSION_SNAPSHOT_SCHEMA.safeParse(migrateSessionSnapshot(snapshot))
+  if (!result.success) {
+    throw new FronteggSessionSnapshotError('malformed', 'Session snapshot is not valid.')
+  }
+
+  try {
+    decodeAccessToken(result.data.accessToken)
+  } catch {
+    throw new FronteggSessionSnapshotError(
+      'malformed',
+      'Session snapshot does not contain a valid access token.',
+    )
+  }
+
+  try {
+    if (result.data.idToken) parseIdTokenClaims(result.data.idToken)
+  } catch {
+    throw new FronteggSessionSnapshotError(
+      'malformed',
+      'Session snapshot does not contain a valid ID token.',
+    )
+  }
+
+  if (result.data.tokenExpirationTime <= clock.now()) {
+    throw new FronteggSessionSnapshotError('expired', 'Session snapshot is expired.')
+  }
+
+  return result.data
+}
@@ -0,0 +1,239 @@
+import { createRuntime } from './runtime'
+import { SessionSync } from './session-sync'
+import type { StoredSession } from './token-storage'
+
+const SESSION = {
+  accessToken: 'refreshed-access-token',
+  refreshToken: 'refreshed-refresh-token',
+  tokenExpirationTime: 1700000000000,
+} satisfies StoredSession
+
+const createSessionSync = (channelName = 'test-channel') => {
+  const onSessionUpdated = vi.fn()
+  const onLoggedOut = vi.fn()
+  const sessionSync = new SessionSync({
+    channelName,
+    onSessionUpdated,
+    onLoggedOut,
+    runtime: createRuntime(),
+  })
+  return { sessionSync, onSessionUpdated, onLoggedOut }
+}
+
+/**
+ * Creates a lock manager granting the locks within the current page, as jsdom does not implement Web Locks.
+ */
+const createLockManager = () => {
+  const heldLocks = new Map<string, Promise<void>>()
+
+  const request = async (
+    name: string,
+    ...args: [LockGrantedCallback<unknown>] | [LockOptions, LockGrantedCallback<unknown>]
+  ) => {
+    const [options, callback] = args.length === 1 ? [{}, args[0]] : args
+    while (heldLocks.has(name)) {
+      if (options.ifAvailable) {
+        return await callback(null)
+      }
+      await heldLocks.get(name)
+    }
+
+    let release = () => {}
+    heldLocks.set(
+      name,
+      new Promise((resolve) => {
+        release = resolve
+      }),
+    )
+    try {
+      return await callback({ name, mode: 'exclusive' })
+    } finally {
+      heldLocks.delete(name)
+      release()
+    }
+  }
+
+  return { request } as unknown as LockManager
+}
+
+describe('session-sync', () => {
+  const sessionSyncs: SessionSync[] = []
+  const create = (channelName?: string) => {
+    const result = createSessionSync(channelName)
+    sessionSyncs.push(result.sessionSync)
+    return result
+  }
+
+  afterEach(() => {
+    for (const sessionSync of sessionSyncs.splice(0)) {
+      sessionSync.close()
+    }
+    vi.unstubAllGlobals()
+  })
+
+  it('broadcasts the session to other tabs', async () => {
+    const tab1 = create()
+    const tab2 = create()
+
+    tab1.sessionSync.notifySessionUpdated(SESSION)
+
+    await vi.waitFor(() => expect(tab2.onSessionUpdated).toHaveBeenCalledWith(SESSION))
+    expect(tab1.onSessionUpdated).not.toHaveBeenCalled()
+  })
+
+  it('broadcasts the logout to other tabs', async () => {
+    const tab1 = create()
+    const tab2 = create()
+
+    tab1.sessionSync.notifyLoggedOut()
+
+    await vi.waitFor(() => expect(tab2.onLoggedOut).toHaveBeenCalled())
+    expect(tab1.onLoggedOut).not.toHaveBeenCalled()
+  })
+
+  it('does not require crypto.randomUUID, which is available only in secure contexts', async () => {
+    vi.stubGlobal('crypto', {
+      getRandomValues: crypto.getRandomValues.bind(crypto),
+      subtle: crypto.subtle,
+    })
+    const tab1 = create()
+    const tab2 = create()
+
+    tab1.sessionSync.notifySessionUpdated(SESSION)
+
+    await vi.waitFor(() => expect(tab2.onSessionUpdated).toHaveBeenCalledWith(SESSION))
+  })
+
+  it('performs the refresh only in one tab', async () => {
+    const tab1 = create()
+    const tab2 = create()
+
+    const refresh1 = vi.fn(() => {
+      tab1.sessionSync.notifySessionUpdated(SESSION)
+      return Promise.resolve(SESSION.accessToken)
+    })
+    const refresh2 = vi.fn(() => {
+      tab2.sessionSync.notifySessionUpdated(SESSION)
+      return Promise.resolve(SESSION.accessToken)
+    })
+
+    const results = await Promise.all([
+      tab1.sessionSync.runExclusiveRefresh(refresh1),
+      tab2.sessionSync.runExclusiveRefresh(refresh2),
+    ])
+
+    expect(results).toEqual([SESSION.accessToken, SESSION.accessToken])
+    expect(refresh1.mock.calls.length + refresh2.mock.calls.length).toBe(1)
+  })
+
+  it('performs the refresh in the current tab when the other tab fails', async () => {
+    const tab1 = create()
+    const tab2 = create()
+
+    const refresh1 = vi.fn(() => Promise.reject(new Error('Refresh failed')))
+    const refresh2 = vi.fn(() => Promise.resolve(SESSION.accessToken))
+
+    const result1 = tab1.sessionSync.runExclusiveRefresh(refresh1)
+    // Let the first claim reach the second tab before it starts its own refresh
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    const result2 = tab2.sessionSync.runExclusiveRefresh(refresh2)
+
+    await expect(result1).rejects.toThrowError('Refresh failed')
+    await expect(result2).resolves.toBe(SESSION.accessToken)
+    expect(refresh2).toHaveBeenCalledTimes(1)
+  })
+
+  describe('Web Locks', () => {
+    beforeEach(() => {
+      vi.stubGlobal('navigator', { locks: createLockManager() })
+    })
+
+    it('performs the refresh only in the tab holding the lock', async () => {
+      const tab1 = create()
+      const tab2 = create()
+
+      const refresh1 = vi.fn(() => {
+        tab1.sessionSync.notifySessionUpdated(SESSION)
+        return Promise.resolve(SESSION.accessToken)
+      })
+      const refresh2 = vi.fn(() => Promise.resolve('unexpected-access-token'))
+
+      const results = await Promise.all([
+        tab1.sessionSync.runExclusiveRefresh(refresh1),
+        tab2.sessionSync.runExclusiveRefresh(refresh2),
+      ])
+
+      expect(results).toEqual([SESSION.accessToken, SESSION.accessToken])
+      expect(refresh1).toHaveBeenCalledTimes(1)
+      expect(refresh2).not.toHaveBeenCalled()
+    })
+
+    it('uses the session received while waiting for the lock', async () => {
+      const lockManager = createLockManager()
+      let grantLock = () => {}
+      const lockGranted = new Promise<void>((resolve) => {
+        grantLock = resolve
+      })
+      vi.stubGlobal('navigator', {
+        locks: {
+          request: async (...args: [string, LockGrantedCallback<unknown>]) => {
+            await lockGranted
+            return await lockManager.request(...args)
+          },
+        },
+      })
+      const tab1 = create()
+      const tab2 = create()
+      const refresh = vi.fn(() => Promise.resolve('unexpected-access-token'))
+
+      const result = tab2.sessionSync.runExclusiveRefresh(refresh)
+      tab1.sessionSync.notifySessionUpdated(SESSION)
+      await vi.waitFor(() => expect(tab2.onSessionUpdated).toHaveBeenCalledWith(SESSION))
+      grantLock()
+
+      await expect(result).resolves.toBe(SESSION.accessToken)
+      expect(refresh).not.toHaveBeenCalled()
+    })
+
+    it('performs the refresh in the current tab when the tab holding the lock fails', async () => {
+      const tab1 = create()
+      const tab2 = create()
+
+      const refresh1 = vi.fn(() => Promise.reject(new Error('Refresh failed')))
+      const refresh2 = vi.fn(() => Promise.resolve(SESSION.accessToken))
+
+      const result1 = tab1.sessionSync.runExclusiveRefresh(refresh1)
+      const result2 = tab2.sessionSync.runExclusiveRefresh(refresh2)
+
+      await expect(result1).rejects.toThrowError('Refresh failed')
+      await expect(result2).resolves.toBe(SESSION.accessToken)
+      expect(refresh2).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  it('falls back to storage events when BroadcastChannel is not available', () => {
+    vi.stubGlobal('BroadcastChannel', undefined)
+    const tab = create('test-storage-channel')
+
+    window.dispatchEvent(
+      new StorageEvent('storage', {
+        key: 'test-storage-channel',
+        newValue: JSON.stringify({ type: 'sessionUpdated', tabId: 'other-tab', session: SESSION }),
+      }),
+    )
+
+    expect(tab.onSessionUpdated).toHaveBeenCalledWith(SESSION)
+  })
+
+  it('ignores malformed messages', () => {
+    vi.stubGlobal('BroadcastChannel', undefined)
+    const tab = create('test-storage-channel')
+
+    window.dispatchEvent(
+      new StorageEvent('storage', { key: 'test-storage-channel', newValue: '{"type":"unknown"}' }),
+    )
+
+    expect(tab.onSessionUpdated).not.toHaveBeenCalled()
+    expect(tab.onLoggedOut).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,336 @@
+import { z } from 'zod'
+import { createRandomString } from './pkce'
+import type { Runtime } from './runtime'
+import { STORED_SESSION_SCHEMA, type StoredSession } from './token-storage'
+
+const SESSION_SYNC_MESSAGE_SCHEMA = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('refreshClaimed'), tabId: z.string(), claimedAt: z.number() }),
+  z.object({
+    type: z.literal('sessionUpdated'),
+    tabId: z.string(),
+    session: STORED_SESSION_SCHEMA,
+  }),
+  z.object({ type: z.literal('refreshFailed'), tabId: z.string() }),
+  z.object({ type: z.literal('loggedOut'), tabId: z.string() }),
+])
+
+type SessionSyncMessage = z.infer<typeof SESSION_SYNC_MESSAGE_SCHEMA>
+
+/**
+ * Time to wait for refresh claims of other tabs before performing the refresh.
+ */
+const REFRESH_CLAIM_WINDOW_MS = 100
+/**
+ * Time to wait for another tab to finish the refresh before performing it in the current tab.
+ */
+const REMOTE_REFRESH_TIMEOUT_MS = 10 * 1000
+
+/**
+ * Function to get the Web Locks API, which is not available in older browsers and outside of secure contexts.
+ */
+const getLockManager = (): LockManager | null =>
+  typeof navigator !== 'undefined' && navigator.locks ? navigator.locks : null
+
+interface RemoteRefresh {
+  promise: Promise<StoredSession | null>
+  resolve: (session: StoredSession | null) => void
+  timeout: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Class synchronizing the session between browser tabs of the same client.
+ * Messages are sent through `BroadcastChannel`, falling back to `storage` events where it is not available.
+ *
+ * Refresh tokens are rotated by Frontegg, so only one tab is allowed to use the refresh token at a time.
+ * The refreshing tab holds a Web Lock, the other tabs wait for the session to be broadcasted by that tab.
+ * In browsers without Web Locks, a tab broadcasts a refresh claim before refreshing and waits a short period
+ * for claims of other tabs. The earliest claim wins.
+ */
+export class SessionSync {
+  /**
+   * Unique id of the current tab used to ignore own messages and to resolve conflicting refresh claims.
+   */
+  private readonly tabId: string
+  private readonly channelName: string
+  /**
+   * Name of the Web Lock held by the tab performing the refresh.
+   */
+  private readonly lockName: string
+  private readonly channel: BroadcastChannel | null = null
+  private readonly onSessionUpdated: (session: StoredSession) => void
+  private readonly onLoggedOut: () => void
+  private readonly runtime: Pick<Runtime, 'clock' | 'crypto'>
+  /**
+   * Refresh claim of the current tab which has not been resolved yet.
+   */
+  private ownClaim: { claimedAt: number; isLost: boolean } | null = null
+  /**
+   * Refresh performed by another tab the current tab is waiting for.
+   */
+  private remoteRefresh: RemoteRefresh | null = null
+  /**
+   * Last session received from another tab, used to detect a refresh performed while the current tab was waiting.
+   */
+  private lastRemoteSession: StoredSession | null = null
+
+  constructor(options: {
+    channelName: string
+    onSessionUpdated: (session: StoredSession) => void
+    onLoggedOut: () => void
+    /**
+     * Source of the tab id, the message nonces and the time of the refresh claims.
+     */
+    runtime: Pick<Runtime, 'clock' | 'crypto'>
+  }) {
+    this.channelName = options.channelName
+    this.lockName = `${options.channelName}:refresh`
+    this.onSessionUpdated = options.onSessionUpdated
+    this.onLoggedOut = options.onLoggedOut
+    this.runtime = options.runtime
+    this.tabId = createRandomString(this.runtime)
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.channelName)
+      this.channel.addEventListener('message', this.handleChannelMessage)
+    } else if (typeof window !== 'undefined') {
+      window.addEventListener('storage', this.handleStorageEvent)
+    }
+  }
+
+  /**
+   * Function to run the refresh in only one tab at a time.
+   * If another tab is already refreshing the session, it waits for its result instead.
+   * In case the other tab fails or does not respond in time, the refresh is performed in the current tab.
+   *
+   * The refresh is expected to broadcast the new session through `notifySessionUpdated`.
+   *
+   * @returns the access token refreshed by the current tab or by the other tab.
+   */
+  public async runExclusiveRefresh(refresh: () => Promise<string>): Promise<string> {
+    const lockManager = getLockManager()
+    if (lockManager) {
+      return await this.runLockedRefresh(lockManager, refresh)
+    }
+
+    return await this.runClaimedRefresh(refresh)
+  }
+
+  /**
+   * Broadcasts the new session to other tabs.
+   */
+  public notifySessionUpdated(session: StoredSession) {
+    this.postMessage({ type: 'sessionUpdated', tabId: this.tabId, session })
+  }
+
+  /**
+   * Broadcasts the logout to other tabs.
+   */
+  public notifyLoggedOut() {
+    this.postMessage({ type: 'loggedOut', tabId: this.tabId })
+  }
+
+  /**
+   * Stops listening to messages from other tabs.
+   */
+  public close() {
+    this.finishRemoteRefresh(null)
+    if (this.channel) {
+      this.channel.close()
+    } else if (typeof window !== 'undefined') {
+      window.removeEventListener('storage', this.handleStorageEvent)
+    }
+  }
+
+  /**
+   * Function to run the refresh while holding the Web Lock.
+   * When another tab holds the lock, the session broadcasted by that tab is awaited instead of the lock,
+   * as the lock can be released before the session reaches the current tab.
+   */
+  private async runLockedRefresh(lockManager: LockManager, refresh: () => Promise<string>) {
+    const lastRemoteSession = this.lastRemoteSession
+    // The session of another tab refreshed since the refresh was requested
+    const getRefreshedAccessToken = () =>
+      this.lastRemoteSession !== lastRemoteSession
+        ? (this.lastRemoteSession?.accessToken ?? null)
+        : null
+
+    const accessToken = await lockManager.request(
+      this.lockName,
+      { ifAvailable: true },
+      // The lock might have been just released by another tab, whose session was received in the meantime
+      async (lock) =>
+        lock ? (getRefreshedAccessToken() ?? (await this.runOwnRefresh(refresh))) : null,
+    )
+    if (accessToken) {
+      return accessToken
+    }
+
+    const refreshedAccessToken = getRefreshedAccessToken()
+    if (refreshedAccessToken) {
+      return refreshedAccessToken
+    }
+
+    const session = await this.startRemoteRefresh().promise
+    if (session) {
+      return session.accessToken
+    }
+
+    // The other tab failed or did not respond in time, the refresh is performed once the lock is released
+    return await lockManager.request(
+      this.lockName,
+      async () => getRefreshedAccessToken() ?? (await this.runOwnRefresh(refresh)),
+    )
+  }
+
+  /**
+   * Function to run the refresh after claiming it, for browsers without Web Locks.
+   * The claim is broadcasted to other tabs and the current tab waits a short period for their claims.
+   */
+  private async runClaimedRefresh(refresh: () => Promise<string>) {
+    if (!this.remoteRefresh) {
+      const claim = { claimedAt: this.runtime.clock.now(), isLost: false }
+      this.ownClaim = claim
+      this.postMessage({ type: 'refreshClaimed', tabId: this.tabId, claimedAt: claim.claimedAt })
+
+      await new Promise((resolve) => setTimeout(resolve, REFRESH_CLAIM_WINDOW_MS))
+
+      if (!claim.isLost) {
+        try {
+          return await this.runOwnRefresh(refresh)
+        } finally {
+          this.ownClaim = null
+        }
+      }
+
+      this.ownClaim = null
+    }
+
+    const session = await this.remoteRefresh?.promise
+    if (session) {
+      return session.accessToken
+    }
+
+    return await refresh()
+  }
+
+  /**
+   * Function to perform the refresh in the current tab, letting the waiting tabs know when it fails.
+   */
+  private async runOwnRefresh(refresh: () => Promise<string>) {
+    try {
+      return await refresh()
+    } catch (error: unknown) {
+      this.postMessage({ type: 'refreshFailed', tabId: this.tabId })
+      throw error
+    }
+  }
+
+  private postMessage(message: SessionSyncMessage) {
+    if (this.channel) {
+      this.channel.postMessage(message)
+      return
+    }
+
+    if (typeof localStorage === 'undefined') {
+      return
+    }
+
+    try {
+      // Storage event is dispatched only when the value changes, so the random nonce makes every message unique
+      localStorage.setItem(
+        this.channelName,
+        JSON.stringify({ ...message, nonce: createRandomString(this.runtime) }),
+      )
+      localStorage.removeItem(this.channelName)
+    } catch {
+      // Ignore storage errors, other tabs will refresh the session on their own
+    }
+  }
+
+  private readonly handleChannelMessage = (event: MessageEvent) => {
+    this.handleMessage(event.data)
+  }
+
+  private readonly handleStorageEvent = (event: StorageEvent) => {
+    if (event.key !== this.channelName || !event.newValue) {
+      return
+    }
+
+    try {
+      this.handleMessage(JSON.parse(event.newValue))
+    } catch {
+      // Ignore malformed messages
+    }
+  }
+
+  private handleMessage(data: unknown) {
+    const result = SESSION_SYNC_MESSAGE_SCHEMA.safeParse(data)
+    if (!result.success || result.data.tabId === this.tabId) {
+      return
+    }
+
+    const message = result.data
+    switch (message.type) {
+      case 'refreshClaimed':
+        this.handleRefreshClaimed(message.tabId, message.claimedAt)
+        break
+      case 'sessionUpdated':
+        this.lastRemoteSession = message.session
+        this.onSessionUpdated(message.session)
+        this.finishRemoteRefresh(message.session)
+        break
+      case 'refreshFailed':
+        this.finishRemoteRefresh(null)
+        break
+      case 'loggedOut':
+        this.finishRemoteRefresh(null)
+        this.onLoggedOut()
+        break
+    }
+  }
+
+  private handleRefreshClaimed(tabId: string, claimedAt: number) {
+    if (this.ownClaim) {
+      // The earlier claim wins, the tab id is used to break ties
+      const isOwnClaimEarlier =
+        this.ownClaim.claimedAt < claimedAt ||
+        (this.ownClaim.claimedAt === claimedAt && this.tabId < tabId)
+      if (isOwnClaimEarlier) {
+        return
+      }
+      this.ownClaim.isLost = true
+    }
+
+    this.startRemoteRefresh()
+  }
+
+  /**
+   * Function to start waiting for the refresh performed by another tab, unless the current tab is already waiting.
+   */
+  private startRemoteRefresh() {
+    if (this.remoteRefresh) {
+      return this.remoteRefresh
+    }
+
+    let resolve: (session: StoredSession | null) => void = () => {}
+    const promise = new Promise<StoredSession | null>((res) => {
+      resolve = res
+    })
+    this.remoteRefresh = {
+      promise,
+      resolve,
+      timeout: setTimeout(() => this.finishRemoteRefresh(null), REMOTE_REFRESH_TIMEOUT_MS),
+    }
+    return this.remoteRefresh
+  }
+
+  private finishRemoteRefresh(session: StoredSession | null) {
+    if (!this.remoteRefresh) {
+      return
+    }
+
+    clearTimeout(this.remoteRefresh.timeout)
+    this.remoteRefresh.resolve(session)
+    this.remoteRefresh = null
+  }
+}
@@ -0,0 +1,9 @@
+import { removeTrailingSlash } from './jwt'
+
+/**
+ * Function to create the namespace of the persisted state (session, login transactions)
+ * and of the cross-tab channel, so clients of different Frontegg instances sharing the client id
+ * do not overwrite each other's state.
+ */
+export const getStorageNamespace = ({ baseUrl, clientId }: { baseUrl: string; clientId: string }) =>
+  `${clientId}@${removeTrailingSlash(baseUrl)}`
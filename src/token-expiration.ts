@@ -0,0 +1,31 @@
+import type { Clock } from './runtime'
+
+/**
+ * Function to calculate the expiration time of a token based on the number of seconds until it expires.
+ *
+ * @param expiresInSeconds the number of seconds until the token expires
+ * @param clock source of the current time
+ * @returns the time in milliseconds since epoch when the token expires
+ */
+export const calculateTokenExpirationTime = (expiresInSeconds: number, clock: Clock) => {
+  return clock.now() + expiresInSeconds * 1000
+}
+
+/**
+ * Function to check if a token is expired based on its expiration time.
+ *
+ * @param tokenExpirationTime time in milliseconds since epoch when the token expires
+ * @param skewMs safety margin in milliseconds, the token is assumed to be expired this long before the actual expiration time
+ * @param clock source of the current time
+ * @returns boolean indicating whether the token is expired
+ */
+export const isTokenExpired = (
+  tokenExpirationTime: number | null,
+  skewMs: number,
+  clock: Clock,
+) => {
+  if (!tokenExpirationTime) {
+    return true
+  }
+  return tokenExpirationTime - skewMs < clock.now()
+}
@@ -0,0 +1,123 @@
+import { TokenRefreshScheduler } from './token-refresh-scheduler'
+
+const REFRESH_SKEW_MS = 60 * 1000
+
+const setVisibilityState = (visibilityState: DocumentVisibilityState) => {
+  Object.defineProperty(document, 'visibilityState', { value: visibilityState, configurable: true })
+  document.dispatchEvent(new Event('visibilitychange'))
+}
+
+describe('token-refresh-scheduler', () => {
+  let tokenExpirationTime: number | null
+  let scheduler: TokenRefreshScheduler
+  const refresh = vi.fn(() => {
+    tokenExpirationTime = Date.now() + 10 * 60 * 1000
+    return Promise.resolve()
+  })
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    refresh.mockClear()
+    tokenExpirationTime = Date.now() + 10 * 60 * 1000
+    scheduler = new TokenRefreshScheduler({
+      getTokenExpirationTime: () => tokenExpirationTime,
+      refresh,
+      refreshSkewMs: REFRESH_SKEW_MS,
+    })
+  })
+
+  afterEach(() => {
+    scheduler.stop()
+    setVisibilityState('visible')
+    vi.useRealTimers()
+  })
+
+  it('refreshes the tokens ahead of the expiration', async () => {
+    scheduler.start()
+
+    await vi.advanceTimersByTimeAsync(9 * 60 * 1000 - 1)
+    expect(refresh).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1)
+    expect(refresh).toHaveBeenCalledTimes(1)
+
+    // The timer is armed again from the refreshed expiration time
+    await vi.advanceTimersByTimeAsync(9 * 60 * 1000)
+    expect(refresh).toHaveBeenCalledTimes(2)
+  })
+
+  it('refreshes immediately when the token is already within the skew', async () => {
+    tokenExpirationTime = Date.now() + REFRESH_SKEW_MS / 2
+    scheduler.start()
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(refresh).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not refresh after being stopped', async () => {
+    scheduler.start()
+    scheduler.stop()
+
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000)
+    expect(refresh).not.toHaveBeenCalled()
+  })
+
+  it('pauses while the page is hidden and catches up on resume', async () => {
+    scheduler.start()
+    setVisibilityState('hidden')
+
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000)
+    expect(refresh).not.toHaveBeenCalled()
+
+    setVisibilityState('visible')
+    await vi.advanceTimersByTimeAsync(0)
+    expect(refresh).toHaveBeenCalledTimes(1)
+  })
+
+  it('pauses while offline and catches up when back online', async () => {
+    const onLineSpy = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+    scheduler.start()
+    window.dispatchEvent(new Event('offline'))
+
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000)
+    expect(refresh).not.toHaveBeenCalled()
+
+    onLineSpy.mockReturnValue(true)
+    window.dispatchEvent(new Event('online'))
+    await vi.advanceTimersByTimeAsync(0)
+    expect(refresh).toHaveBeenCalledTimes(1)
+
+    onLineSpy.mockRestore()
+  })
+
+  it('retries a failed refresh later', async () => {
+    refresh.mockRejectedValueOnce(new Error('Failed to fetch'))
+    tokenExpirationTime = Date.now()
+    scheduler.start()
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(refresh).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(60 * 1000)
+    expect(refresh).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not refresh more often than every 30 seconds', async () => {
+    refresh.mockImplementation(() => {
+      // Token lifetime shorter than the skew
+      tokenExpirationTime = Date.now() + REFRESH_SKEW_MS / 2
+      return Promise.resolve()
+    })
+    tokenExpirationTime = Date.now()
+    scheduler.start()
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(refresh).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(30 * 1000 - 1)
+    expect(refresh).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(1)
+    expect(refresh).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,154 @@
+import type { Clock } from './runtime'
+
+/**
+ * Time to wait before retrying a failed refresh.
+ */
+const RETRY_DELAY_MS = 60 * 1000
+/**
+ * Minimum time between two refreshes, prevents refreshing in a loop when the token lifetime is shorter than the skew.
+ */
+const MIN_REFRESH_INTERVAL_MS = 30 * 1000
+/**
+ * Maximum delay supported by `setTimeout`, longer delays fire immediately.
+ */
+const MAX_TIMEOUT_DELAY_MS = 2 ** 31 - 1
+
+/**
+ * Class refreshing the tokens ahead of their expiration, so the application never waits for the refresh.
+ * The timer is paused while the page is hidden or offline and the refresh is caught up once the page is back.
+ */
+export class TokenRefreshScheduler {
+  private readonly getTokenExpirationTime: () => number | null
+  private readonly refresh: () => Promise<unknown>
+  private readonly refreshSkewMs: number
+  private readonly clock: Clock
+  private timeout: ReturnType<typeof setTimeout> | null = null
+  private isRunning = false
+  private isRefreshing = false
+  private lastRefreshTime = 0
+
+  constructor(options: {
+    /**
+     * Returns the time in milliseconds since epoch when the current token expires.
+     */
+    getTokenExpirationTime: () => number | null
+    /**
+     * Refreshes the tokens.
+     */
+    refresh: () => Promise<unknown>
+    /**
+     * How many milliseconds before the expiration the tokens are refreshed.
+     */
+    refreshSkewMs: number
+    /**
+     * Defaults to `Date`.
+     */
+    clock?: Clock
+  }) {
+    this.getTokenExpirationTime = options.getTokenExpirationTime
+    this.refresh = options.refresh
+    this.refreshSkewMs = options.refreshSkewMs
+    this.clock = options.clock ?? Date
+  }
+
+  /**
+   * Starts refreshing the tokens in the background.
+   */
+  public start() {
+    if (this.isRunning) {
+      return
+    }
+
+    this.isRunning = true
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleResume)
+    }
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleResume)
+      window.addEventListener('offline', this.handlePause)
+    }
+    this.schedule()
+  }
+
+  /**
+   * Stops refreshing the tokens in the background.
+   */
+  public stop() {
+    this.isRunning = false
+    this.clearTimeout()
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleResume)
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleResume)
+      window.removeEventListener('offline', this.handlePause)
+    }
+  }
+
+  /**
+   * Arms the timer again based on the current token expiration time.
+   * Expected to be called whenever the tokens change.
+   */
+  public schedule() {
+    this.clearTimeout()
+
+    if (!this.isRunning || this.isRefreshing || this.isPaused()) {
+      return
+    }
+
+    const tokenExpirationTime = this.getTokenExpirationTime()
+    if (!tokenExpirationTime) {
+      return
+    }
+
+    const now = this.clock.now()
+    const delay = Math.max(
+      tokenExpirationTime - this.refreshSkewMs - now,
+      this.lastRefreshTime + MIN_REFRESH_INTERVAL_MS - now,
+    )
+    if (delay <= 0) {
+      void this.runRefresh()
+      return
+    }
+
+    this.timeout = setTimeout(() => this.schedule(), Math.min(delay, MAX_TIMEOUT_DELAY_MS))
+  }
+
+  private async runRefresh() {
+    this.isRefreshing = true
+    this.lastRefreshTime = this.clock.now()
+    try {
+      await this.refresh()
+      this.isRefreshing = false
+      this.schedule()
+    } catch {
+      this.isRefreshing = false
+      // Errors are surfaced to the application by the next `getUserData` call, the refresh is just retried later
+      if (this.isRunning) {
+        this.timeout = setTimeout(() => this.schedule(), RETRY_DELAY_MS)
+      }
+    }
+  }
+
+  private isPaused() {
+    const isHidden = typeof document !== 'undefined' && document.visibilityState === 'hidden'
+    const isOffline = typeof navigator !== 'undefined' && navigator.onLine === false
+    return isHidden || isOffline
+  }
+
+  private clearTimeout() {
+    if (this.timeout) {
+      clearTimeout(this.timeout)
+      this.timeout = null
+    }
+  }
+
+  private readonly handleResume = () => {
+    // Catches up the refresh missed while the page was hidden or offline, or pauses the timer when hidden
+    this.schedule()
+  }
+
+  private readonly handlePause = () => {
+    this.clearTimeout()
+  }
+}
@@ -0,0 +1,64 @@
+import {
+  InMemoryTokenStorage,
+  LocalStorageTokenStorage,
+  SessionStorageTokenStorage,
+} from './token-storage'
+
+describe('token-storage', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+  })
+
+  describe('InMemoryTokenStorage', () => {
+    it('stores, returns and removes values', () => {
+      const storage = new InMemoryTokenStorage()
+
+      expect(storage.get('key')).toBeNull()
+
+      storage.set('key', 'value')
+      expect(storage.get('key')).toBe('value')
+
+      storage.remove('key')
+      expect(storage.get('key')).toBeNull()
+    })
+  })
+
+  describe('SessionStorageTokenStorage', () => {
+    it('persists values in sessionStorage', () => {
+      const storage = new SessionStorageTokenStorage()
+
+      storage.set('key', 'value')
+      expect(sessionStorage.getItem('key')).toBe('value')
+      expect(storage.get('key')).toBe('value')
+
+      storage.remove('key')
+      expect(sessionStorage.getItem('key')).toBeNull()
+    })
+  })
+
+  describe('LocalStorageTokenStorage', () => {
+    it('persists values in localStorage', () => {
+      const storage = new LocalStorageTokenStorage()
+
+      storage.set('key', 'value')
+      expect(localStorage.getItem('key')).toBe('value')
+      expect(storage.get('key')).toBe('value')
+
+      storage.remove('key')
+      expect(localStorage.getItem('key')).toBeNull()
+    })
+
+    it('ignores errors thrown by the storage', () => {
+      const storage = new LocalStorageTokenStorage()
+      const setItemSpy = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new Error('QuotaExceededError')
+      })
+
+      expect(() => storage.set('key', 'value')).not.toThrow()
+      expect(storage.get('key')).toBeNull()
+
+      setItemSpy.mockRestore()
+    })
+  })
+})
@@ -0,0 +1,104 @@
+import { z } from 'zod'
+
+export const STORED_SESSION_SCHEMA = z.object({
+  accessToken: z.string(),
+  refreshToken: z.string(),
+  tokenExpirationTime: z.number(),
+  // Sessions persisted by previous versions of the client do not contain the ID token
+  idToken: z.string().optional(),
+})
+
+/**
+ * Session persisted in the token storage.
+ */
+export type StoredSession = z.infer<typeof STORED_SESSION_SCHEMA>
+
+/**
+ * Storage used by `FronteggOAuthClient` to persist the serialized session between page loads.
+ * Implementations are expected to be synchronous, so the session is available right after the client is created.
+ */
+export interface TokenStorage {
+  /**
+   * Returns the stored value or null if there is nothing stored under the key.
+   */
+  get(key: string): string | null
+  /**
+   * Stores the value under the key, replacing any previous value.
+   */
+  set(key: string, value: string): void
+  /**
+   * Removes the value stored under the key.
+   */
+  remove(key: string): void
+}
+
+/**
+ * Token storage keeping the session only in memory. The session is lost on page reload.
+ * This is the default storage used by `FronteggOAuthClient`.
+ */
+export class InMemoryTokenStorage implements TokenStorage {
+  private readonly values = new Map<string, string>()
+
+  get(key: string) {
+    return this.values.get(key) ?? null
+  }
+
+  set(key: string, value: string) {
+    this.values.set(key, value)
+  }
+
+  remove(key: string) {
+    this.values.delete(key)
+  }
+}
+
+/**
+ * Token storage backed by the Web Storage API.
+ * Errors thrown by the browser (e.g. quota exceeded or storage disabled in private mode) are ignored,
+ * as failing to persist the session must not break the authentication itself.
+ */
+class WebStorageTokenStorage implements TokenStorage {
+  constructor(private readonly getStorage: () => Storage) {}
+
+  get(key: string) {
+    try {
+      return this.getStorage().getItem(key)
+    } catch {
+      return null
+    }
+  }
+
+  set(key: string, value: string) {
+    try {
+      this.getStorage().setItem(key, value)
+    } catch {
+      // Ignore storage errors, the session is still kept in memory by the client
+    }
+  }
+
+  remove(key: string) {
+    try {
+      this.getStorage().removeItem(key)
+    } catch {
+      // Ignore storage errors, the session is still kept in memory by the client
+    }
+  }
+}
+
+/**
+ * Token storage persisting the session in `sessionStorage`. The session survives page reloads, but it is not shared between tabs.
+ */
+export class SessionStorageTokenStorage extends WebStorageTokenStorage {
+  constructor() {
+    super(() => sessionStorage)
+  }
+}
+
+/**
+ * Token storage persisting the session in `localStorage`. The session survives page reloads and is shared between tabs.
+ */
+export class LocalStorageTokenStorage extends WebStorageTokenStorage {
+  constructor() {
+    super(() => localStorage)
+  }
+}
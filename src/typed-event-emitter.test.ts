@@ -0,0 +1,53 @@
+import { TypedEventEmitter } from './typed-event-emitter'
+
+type TestEvents = {
+  changed: { value: number }
+  cleared: undefined
+}
+
+describe('typed-event-emitter', () => {
+  it('calls listeners subscribed to the event', () => {
+    const emitter = new TypedEventEmitter<TestEvents>()
+    const changedListener = vi.fn()
+    const clearedListener = vi.fn()
+    emitter.on('changed', changedListener)
+    emitter.on('cleared', clearedListener)
+
+    emitter.emit('changed', { value: 1 })
+
+    expect(changedListener).toHaveBeenCalledWith({ value: 1 })
+    expect(clearedListener).not.toHaveBeenCalled()
+  })
+
+  it('does not call unsubscribed listeners', () => {
+    const emitter = new TypedEventEmitter<TestEvents>()
+    const listener1 = vi.fn()
+    const listener2 = vi.fn()
+    const unsubscribe = emitter.on('changed', listener1)
+    emitter.on('changed', listener2)
+
+    unsubscribe()
+    emitter.off('changed', listener2)
+    emitter.emit('changed', { value: 1 })
+
+    expect(listener1).not.toHaveBeenCalled()
+    expect(listener2).not.toHaveBeenCalled()
+  })
+
+  it('calls the remaining listeners when a listener throws', () => {
+    const queueMicrotaskSpy = vi.spyOn(globalThis, 'queueMicrotask').mockImplementation(() => {})
+    const emitter = new TypedEventEmitter<TestEvents>()
+    const listener = vi.fn()
+    emitter.on('changed', () => {
+      throw new Error('Listener error')
+    })
+    emitter.on('changed', listener)
+
+    emitter.emit('changed', { value: 1 })
+
+    expect(listener).toHaveBeenCalledWith({ value: 1 })
+    // The error is rethrown asynchronously to reach global error handlers
+    expect(queueMicrotaskSpy).toHaveBeenCalledTimes(1)
+    queueMicrotaskSpy.mockRestore()
+  })
+})
@@ -0,0 +1,53 @@
+type Listener<Payload> = (payload: Payload) => void
+
+/**
+ * Minimalistic event emitter with payloads typed by the event map.
+ */
+export class TypedEventEmitter<Events extends Record<string, unknown>> {
+  private readonly listeners: { [Event in keyof Events]?: Set<Listener<Events[Event]>> } = {}
+
+  /**
+   * Subscribes the listener to the event.
+   *
+   * @returns a function to unsubscribe the listener
+   */
+  public on<Event extends keyof Events>(event: Event, listener: Listener<Events[Event]>) {
+    let eventListeners = this.listeners[event]
+    if (!eventListeners) {
+      eventListeners = new Set()
+      this.listeners[event] = eventListeners
+    }
+    eventListeners.add(listener)
+
+    return () => this.off(event, listener)
+  }
+
+  /**
+   * Unsubscribes the listener from the event.
+   */
+  public off<Event extends keyof Events>(event: Event, listener: Listener<Events[Event]>) {
+    this.listeners[event]?.delete(listener)
+  }
+
+  /**
+   * Calls all listeners of the event with the payload.
+   * Errors thrown by listeners do not interrupt the emitter, they are rethrown asynchronously instead,
+   * so they are still reported by global error handlers.
+   */
+  public emit<Event extends keyof Events>(event: Event, payload: Events[Event]) {
+    const eventListeners = this.listeners[event]
+    if (!eventListeners) {
+      return
+    }
+
+    for (const listener of [...eventListeners]) {
+      try {
+        listener(payload)
+      } catch (error: unknown) {
+        queueMicrotask(() => {
+          throw error
+        })
+      }
+    }
+  }
+}
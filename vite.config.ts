@@ -4,8 +4,16 @@ import packageJson from './package.json'
 
 // biome-ignore lint/style/noDefaultExport: Vite expects default export.
 export default defineConfig({
-  entry: resolve(__dirname, 'src/index.ts'),
-  dependencies: Object.keys(packageJson.dependencies),
+  entry: {
+    index: resolve(__dirname, 'src/index.ts'),
+    server: resolve(__dirname, 'src/server.ts'),
+    react: resolve(__dirname, 'src/react.tsx'),
+  },
+  dependencies: [
+    ...Object.keys(packageJson.dependencies),
+    ...Object.keys(packageJson.peerDependencies),
+    'react/jsx-runtime',
+  ],
   test: {
     environment: 'jsdom',
   },